@@ -1,11 +1,13 @@
-import { useState } from 'react';
-import ConverterForm from './components/ConverterForm';
+import { useEffect, useState } from 'react';
+import ConverterForm, { AuthSession, ConversionRequest } from './components/ConverterForm';
 import DownloadButton from './components/DownloadButton';
 import './App.css';
 
 interface ConversionResult {
   success: boolean;
   downloadUrl?: string;
+  // Stable link to the newest build of a watched file
+  latestUrl?: string;
   error?: string;
   warnings?: string[];
 }
@@ -13,10 +15,31 @@ interface ConversionResult {
 function App() {
   const [result, setResult] = useState<ConversionResult | null>(null);
   const [isConverting, setIsConverting] = useState(false);
+  const [session, setSession] = useState<AuthSession>({ oauthEnabled: false, authenticated: false });
+  // Credentials the latest build has to be fetched with
+  const [latestHeaders, setLatestHeaders] = useState<Record<string, string>>({});
+  const [latestError, setLatestError] = useState<string | null>(null);
 
-  const handleConvert = async (figmaUrl: string, apiKey: string) => {
+  // Check for a server-side Figma sign-in
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then((data: AuthSession) => setSession(data))
+      .catch(() => {
+        // Sign-in stays unavailable; pasted tokens still work
+      });
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    setSession((current) => ({ ...current, authenticated: false }));
+  };
+
+  const handleConvert = async (request: ConversionRequest) => {
     setIsConverting(true);
     setResult(null);
+    setLatestError(null);
+    setLatestHeaders(credentialHeaders(request));
 
     try {
       const response = await fetch('/api/convert', {
@@ -24,7 +47,7 @@ function App() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ figmaUrl, apiKey }),
+        body: JSON.stringify(request),
       });
 
       const data = await response.json();
@@ -39,6 +62,30 @@ function App() {
     }
   };
 
+  // A plain link can't send a pasted token, so fetch the ZIP and save it
+  const handleDownloadLatest = async (latestUrl: string) => {
+    setLatestError(null);
+
+    try {
+      const response = await fetch(latestUrl, { headers: latestHeaders });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setLatestError(data?.error || `Download failed (${response.status})`);
+        return;
+      }
+
+      const objectUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = objectUrl;
+      link.download = 'figma-export.zip';
+      link.click();
+      // Let the browser start the download before the blob goes away
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+    } catch {
+      setLatestError('Failed to connect to the server. Please try again.');
+    }
+  };
+
   return (
     <div className="app">
       <header className="app-header">
@@ -47,7 +94,12 @@ function App() {
       </header>
 
       <main className="app-main">
-        <ConverterForm onConvert={handleConvert} isConverting={isConverting} />
+        <ConverterForm
+          onConvert={handleConvert}
+          onSignOut={handleSignOut}
+          isConverting={isConverting}
+          session={session}
+        />
 
         {result && (
           <div className="results">
@@ -70,6 +122,17 @@ function App() {
                 </div>
 
                 {result.downloadUrl && <DownloadButton downloadUrl={result.downloadUrl} />}
+
+                {result.latestUrl && (
+                  <p className="watch-notice">
+                    Watching for changes. The latest build is always at <code>{result.latestUrl}</code>, for
+                    requests with the same Figma token or sign-in.{' '}
+                    <button type="button" className="link-button" onClick={() => handleDownloadLatest(result.latestUrl!)}>
+                      Download latest build
+                    </button>
+                    {latestError && <span className="watch-error">{latestError}</span>}
+                  </p>
+                )}
               </>
             ) : (
               <div className="error-message">
@@ -93,4 +156,12 @@ function App() {
   );
 }
 
+// The token a conversion was requested with; signed-in requests rely on the cookie
+function credentialHeaders(request: ConversionRequest): Record<string, string> {
+  if (!('figmaUrl' in request)) return {};
+  if (request.accessToken) return { Authorization: `Bearer ${request.accessToken}` };
+  if (request.apiKey) return { 'X-Figma-Token': request.apiKey };
+  return {};
+}
+
 export default App;
@@ -1,39 +1,158 @@
-import { useState, FormEvent } from 'react';
+import { useState, FormEvent, ChangeEvent } from 'react';
+import FilePicker, { ProjectFile } from './FilePicker';
 import './ConverterForm.css';
 
+export type PageMode = 'single' | 'pages' | 'frames';
+
+export type SVGMode = 'inline' | 'file';
+
+export type RasterFormat = 'png' | 'jpg' | 'svg' | 'pdf';
+
+export type ConversionRequest = {
+  pageMode: PageMode;
+  svgMode: SVGMode;
+  rasterFormat: RasterFormat;
+  rasterScales: number[];
+  linkRewrites?: Record<string, string>;
+} & (
+  | { figmaUrl: string; apiKey?: string; accessToken?: string; version?: string; watch?: boolean }
+  | { figmaFile: unknown }
+);
+
+type InputMode = 'url' | 'upload';
+
+type TokenType = 'personal' | 'oauth';
+
+export interface AuthSession {
+  oauthEnabled: boolean;
+  authenticated: boolean;
+}
+
 interface ConverterFormProps {
-  onConvert: (figmaUrl: string, apiKey: string) => void;
+  onConvert: (request: ConversionRequest) => void;
+  onSignOut: () => void;
   isConverting: boolean;
+  session: AuthSession;
 }
 
-function ConverterForm({ onConvert, isConverting }: ConverterFormProps) {
-  const [figmaUrl, setFigmaUrl] = useState('');
-  const [apiKey, setApiKey] = useState('');
-  const [errors, setErrors] = useState<{ figmaUrl?: string; apiKey?: string }>({});
-
-  // Load API key from session storage
-  useState(() => {
-    const savedApiKey = sessionStorage.getItem('figma-api-key');
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
+function parseScales(value: string): number[] {
+  return value
+    .split(',')
+    .map(part => part.trim().replace(/x$/i, ''))
+    .filter(Boolean)
+    .map(Number);
+}
+
+// One "from -> to" pair per line; null when a line doesn't parse
+function parseRewrites(value: string): Record<string, string> | null {
+  const rewrites: Record<string, string> = {};
+  for (const line of value.split('\n').map(part => part.trim()).filter(Boolean)) {
+    const separator = line.indexOf('->');
+    const from = separator === -1 ? '' : line.slice(0, separator).trim();
+    if (!from) {
+      return null;
     }
-  });
+    rewrites[from] = line.slice(separator + 2).trim();
+  }
+  return rewrites;
+}
+
+function ConverterForm({ onConvert, onSignOut, isConverting, session }: ConverterFormProps) {
+  const [mode, setMode] = useState<InputMode>('url');
+  const [figmaUrl, setFigmaUrl] = useState('');
+  // Restore the token saved by the last conversion, along with its kind
+  const [apiKey, setApiKey] = useState(() => sessionStorage.getItem('figma-api-key') || '');
+  const [tokenType, setTokenType] = useState<TokenType>(() =>
+    sessionStorage.getItem('figma-token-type') === 'oauth' ? 'oauth' : 'personal'
+  );
+  const [version, setVersion] = useState('');
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [watch, setWatch] = useState(false);
+  const [figmaFile, setFigmaFile] = useState<unknown>(null);
+  const [fileName, setFileName] = useState('');
+  const [pageMode, setPageMode] = useState<PageMode>('single');
+  const [svgMode, setSvgMode] = useState<SVGMode>('inline');
+  const [rasterFormat, setRasterFormat] = useState<RasterFormat>('png');
+  const [rasterScales, setRasterScales] = useState('1, 2');
+  const [linkRewrites, setLinkRewrites] = useState('');
+  const [errors, setErrors] = useState<{
+    figmaUrl?: string;
+    apiKey?: string;
+    figmaFile?: string;
+    rasterScales?: string;
+    linkRewrites?: string;
+  }>({});
 
   const validate = (): boolean => {
-    const newErrors: { figmaUrl?: string; apiKey?: string } = {};
+    const newErrors: typeof errors = {};
+
+    if (mode === 'upload') {
+      if (!figmaFile) {
+        newErrors.figmaFile = 'Choose an exported Figma document (.json)';
+      }
+    } else {
+      if (!figmaUrl.trim()) {
+        newErrors.figmaUrl = 'Figma URL or file ID is required';
+      }
+
+      // A Figma sign-in stands in for a pasted token
+      if (!apiKey.trim() && !session.authenticated) {
+        newErrors.apiKey = 'API key or access token is required';
+      }
+    }
 
-    if (!figmaUrl.trim()) {
-      newErrors.figmaUrl = 'Figma URL or file ID is required';
+    const scales = parseScales(rasterScales);
+    if (scales.length === 0 || scales.some(scale => !(scale >= 0.01 && scale <= 4))) {
+      newErrors.rasterScales = 'Enter scales between 0.01 and 4, separated by commas';
     }
 
-    if (!apiKey.trim()) {
-      newErrors.apiKey = 'API key is required';
+    if (!parseRewrites(linkRewrites)) {
+      newErrors.linkRewrites = 'Write one rewrite per line, like https://example.com/ -> /';
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFigmaFile(null);
+    setFileName(file?.name || '');
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      // A file or nodes response, or a bare document node; the server checks the rest
+      if (!parsed || typeof parsed !== 'object' || !(parsed.document || parsed.nodes || parsed.type === 'DOCUMENT')) {
+        setErrors({ figmaFile: 'This file does not look like a Figma document (no "document" or "nodes")' });
+        return;
+      }
+      setFigmaFile(parsed);
+      setErrors({});
+    } catch {
+      setErrors({ figmaFile: 'Could not read the file as JSON' });
+    }
+  };
+
+  // The token field is hidden while signed in, so the session cookie decides
+  const activeToken = (): string => (session.authenticated ? '' : apiKey.trim());
+
+  // GET routes can't carry a token in the body
+  const tokenHeaders = (): Record<string, string> => {
+    const token = activeToken();
+    if (!token) return {};
+    return tokenType === 'oauth' ? { Authorization: `Bearer ${token}` } : { 'X-Figma-Token': token };
+  };
+
+  const handleFileSelect = (file: ProjectFile) => {
+    setFigmaUrl(`https://www.figma.com/file/${file.key}`);
+    setVersion('');
+    setErrors((current) => ({ ...current, figmaUrl: undefined }));
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
 
@@ -41,53 +160,269 @@ function ConverterForm({ onConvert, isConverting }: ConverterFormProps) {
       return;
     }
 
-    // Save API key to session storage
-    sessionStorage.setItem('figma-api-key', apiKey);
+    const output = {
+      pageMode,
+      svgMode,
+      rasterFormat,
+      rasterScales: parseScales(rasterScales),
+      linkRewrites: parseRewrites(linkRewrites) || undefined,
+    };
+
+    if (mode === 'upload') {
+      onConvert({ figmaFile, ...output });
+      return;
+    }
+
+    const token = activeToken();
+    const versionId = version.trim() || undefined;
+
+    if (!token) {
+      onConvert({ figmaUrl, ...output, version: versionId, watch });
+      return;
+    }
+
+    // Save the token to session storage
+    sessionStorage.setItem('figma-api-key', token);
+    sessionStorage.setItem('figma-token-type', tokenType);
 
-    onConvert(figmaUrl, apiKey);
+    onConvert(
+      tokenType === 'oauth'
+        ? { figmaUrl, accessToken: token, ...output, version: versionId, watch }
+        : { figmaUrl, apiKey: token, ...output, version: versionId, watch }
+    );
   };
 
   return (
     <form className="converter-form" onSubmit={handleSubmit}>
+      <div className="mode-toggle" role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'url'}
+          className={mode === 'url' ? 'active' : ''}
+          onClick={() => setMode('url')}
+          disabled={isConverting}
+        >
+          Figma URL
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'upload'}
+          className={mode === 'upload' ? 'active' : ''}
+          onClick={() => setMode('upload')}
+          disabled={isConverting}
+        >
+          Upload JSON
+        </button>
+      </div>
+
+      {mode === 'upload' ? (
+        <div className="form-group">
+          <label htmlFor="figmaFile">
+            Figma Document JSON
+            <span className="required">*</span>
+          </label>
+          <input
+            type="file"
+            id="figmaFile"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            disabled={isConverting}
+            className={errors.figmaFile ? 'error' : ''}
+          />
+          {errors.figmaFile && <span className="error-message">{errors.figmaFile}</span>}
+          <small>
+            {fileName && !errors.figmaFile
+              ? `Selected: ${fileName}`
+              : 'An exported file response or /api/debug output. No API key or network access needed.'}
+          </small>
+        </div>
+      ) : (
+        <>
+          <div className="form-group">
+            <label htmlFor="figmaUrl">
+              Figma File URL or ID
+              <span className="required">*</span>
+            </label>
+            <input
+              type="text"
+              id="figmaUrl"
+              value={figmaUrl}
+              onChange={(e) => setFigmaUrl(e.target.value)}
+              placeholder="https://www.figma.com/file/..."
+              disabled={isConverting}
+              className={errors.figmaUrl ? 'error' : ''}
+            />
+            {errors.figmaUrl && <span className="error-message">{errors.figmaUrl}</span>}
+            <small>
+              Paste the full Figma file URL or just the file ID. Links to a specific frame convert only that frame.{' '}
+              <button
+                type="button"
+                className="link-button"
+                onClick={() => setIsBrowsing(!isBrowsing)}
+                disabled={isConverting}
+              >
+                {isBrowsing ? 'Hide team files' : 'Browse team files'}
+              </button>
+            </small>
+            {isBrowsing && (
+              <FilePicker headers={tokenHeaders()} onSelect={handleFileSelect} disabled={isConverting} />
+            )}
+          </div>
+
+          {session.authenticated ? (
+            <div className="form-group signed-in">
+              <span>✓ Signed in with Figma</span>
+              <button type="button" className="link-button" onClick={onSignOut} disabled={isConverting}>
+                Sign out
+              </button>
+            </div>
+          ) : (
+            session.oauthEnabled && (
+              <div className="form-group">
+                <a href="/api/auth/figma" className="oauth-button">
+                  Sign in with Figma
+                </a>
+                <small>Or paste a token below</small>
+              </div>
+            )
+          )}
+
+          {!session.authenticated && (
+            <div className="form-group">
+              <label htmlFor="apiKey">
+                {tokenType === 'oauth' ? 'OAuth Access Token' : 'Figma API Key'}
+                <span className="required">*</span>
+              </label>
+              <div className="token-input">
+                <select
+                  aria-label="Token type"
+                  value={tokenType}
+                  onChange={(e) => setTokenType(e.target.value as TokenType)}
+                  disabled={isConverting}
+                >
+                  <option value="personal">Personal token</option>
+                  <option value="oauth">OAuth bearer</option>
+                </select>
+                <input
+                  type="password"
+                  id="apiKey"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder={tokenType === 'oauth' ? 'figu_...' : 'figd_...'}
+                  disabled={isConverting}
+                  className={errors.apiKey ? 'error' : ''}
+                />
+              </div>
+              {errors.apiKey && <span className="error-message">{errors.apiKey}</span>}
+              <small>
+                Your token is stored in your browser session only.{' '}
+                <a href="https://www.figma.com/developers/api#access-tokens" target="_blank" rel="noopener noreferrer">
+                  Get an API key
+                </a>
+              </small>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="version">Version ID</label>
+            <input
+              type="text"
+              id="version"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              placeholder="Latest"
+              disabled={isConverting}
+            />
+            <small>Pin the conversion to a saved version from the file's version history for reproducible output</small>
+          </div>
+
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={watch}
+                onChange={(e) => setWatch(e.target.checked)}
+                disabled={isConverting}
+              />
+              Reconvert when the file changes
+            </label>
+            <small>Figma webhooks rebuild the ZIP with these options after each edit; the result keeps a stable download link</small>
+          </div>
+        </>
+      )}
+
       <div className="form-group">
-        <label htmlFor="figmaUrl">
-          Figma File URL or ID
-          <span className="required">*</span>
-        </label>
-        <input
-          type="text"
-          id="figmaUrl"
-          value={figmaUrl}
-          onChange={(e) => setFigmaUrl(e.target.value)}
-          placeholder="https://www.figma.com/file/..."
+        <label htmlFor="pageMode">Output</label>
+        <select
+          id="pageMode"
+          value={pageMode}
+          onChange={(e) => setPageMode(e.target.value as PageMode)}
           disabled={isConverting}
-          className={errors.figmaUrl ? 'error' : ''}
-        />
-        {errors.figmaUrl && <span className="error-message">{errors.figmaUrl}</span>}
-        <small>Paste the full Figma file URL or just the file ID</small>
+        >
+          <option value="single">Single page (first Figma page)</option>
+          <option value="pages">One HTML file per Figma page</option>
+          <option value="frames">One HTML file per top-level frame</option>
+        </select>
+        <small>Multi-page output adds an index.html linking every page; all pages share styles.css</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="svgMode">Vectors and icons</label>
+        <select
+          id="svgMode"
+          value={svgMode}
+          onChange={(e) => setSvgMode(e.target.value as SVGMode)}
+          disabled={isConverting}
+        >
+          <option value="inline">Inline &lt;svg&gt; in the HTML</option>
+          <option value="file">Separate .svg files in assets/</option>
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="rasterFormat">Exported layers</label>
+        <div className="raster-options">
+          <select
+            id="rasterFormat"
+            value={rasterFormat}
+            onChange={(e) => setRasterFormat(e.target.value as RasterFormat)}
+            disabled={isConverting}
+          >
+            <option value="png">PNG</option>
+            <option value="jpg">JPG</option>
+            <option value="svg">SVG</option>
+            <option value="pdf">PDF</option>
+          </select>
+          <input
+            id="rasterScales"
+            type="text"
+            value={rasterScales}
+            onChange={(e) => setRasterScales(e.target.value)}
+            placeholder="1, 2"
+            disabled={isConverting || rasterFormat === 'svg' || rasterFormat === 'pdf'}
+            className={errors.rasterScales ? 'error' : ''}
+            aria-label="Scales"
+          />
+        </div>
+        {errors.rasterScales && <span className="error-message">{errors.rasterScales}</span>}
+        <small>Layers marked for export in Figma are rendered as images; several scales produce a responsive srcset</small>
       </div>
 
       <div className="form-group">
-        <label htmlFor="apiKey">
-          Figma API Key
-          <span className="required">*</span>
-        </label>
-        <input
-          type="password"
-          id="apiKey"
-          value={apiKey}
-          onChange={(e) => setApiKey(e.target.value)}
-          placeholder="figd_..."
+        <label htmlFor="linkRewrites">Link rewrites (optional)</label>
+        <textarea
+          id="linkRewrites"
+          value={linkRewrites}
+          onChange={(e) => setLinkRewrites(e.target.value)}
+          placeholder="https://example.com/ -> /"
+          rows={2}
           disabled={isConverting}
-          className={errors.apiKey ? 'error' : ''}
+          className={errors.linkRewrites ? 'error' : ''}
         />
-        {errors.apiKey && <span className="error-message">{errors.apiKey}</span>}
-        <small>
-          Your API key is stored in your browser session only.{' '}
-          <a href="https://www.figma.com/developers/api#access-tokens" target="_blank" rel="noopener noreferrer">
-            Get an API key
-          </a>
-        </small>
+        {errors.linkRewrites && <span className="error-message">{errors.linkRewrites}</span>}
+        <small>Text links starting with the left side get it replaced, so prototype URLs point at real routes</small>
       </div>
 
       <button type="submit" disabled={isConverting} className="convert-button">
@@ -0,0 +1,229 @@
+import { useEffect, useState, KeyboardEvent } from 'react';
+import './FilePicker.css';
+
+export interface ProjectFile {
+  key: string;
+  name: string;
+  thumbnailUrl?: string;
+  lastModified: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface FilePickerProps {
+  // Credentials for the Figma API; empty when relying on the sign-in session
+  headers: Record<string, string>;
+  onSelect: (file: ProjectFile) => void;
+  disabled: boolean;
+}
+
+const PAGE_SIZE = 12;
+
+// Accepts a bare team ID or a figma.com/files/team/<id>/... URL
+function parseTeamId(input: string): string {
+  const match = input.match(/team\/(\d+)/);
+  return match ? match[1] : input.trim();
+}
+
+function FilePicker({ headers, onSelect, disabled }: FilePickerProps) {
+  const [teamInput, setTeamInput] = useState(() => sessionStorage.getItem('figma-team-id') || '');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [files, setFiles] = useState<ProjectFile[]>([]);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadProjects = async () => {
+    const teamId = parseTeamId(teamInput);
+    if (!teamId) {
+      setError('Enter a team ID or team URL');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setProjects([]);
+    setProjectId('');
+    setFiles([]);
+
+    try {
+      const response = await fetch(`/api/teams/${encodeURIComponent(teamId)}/projects`, { headers });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error);
+        return;
+      }
+
+      sessionStorage.setItem('figma-team-id', teamId);
+      setProjects(data.projects);
+      if (data.projects.length === 0) {
+        setError('This team has no projects you can access');
+      } else {
+        setProjectId(data.projects[0].id);
+      }
+    } catch {
+      setError('Failed to connect to the server. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload the file list when the project, search or page changes; typing is debounced.
+  // headers is rebuilt on every render, so it is deliberately not a dependency.
+  useEffect(() => {
+    if (!projectId) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError('');
+
+      try {
+        const params = new URLSearchParams({ q: search, page: String(page), pageSize: String(PAGE_SIZE) });
+        const response = await fetch(`/api/projects/${encodeURIComponent(projectId)}/files?${params}`, { headers });
+        const data = await response.json();
+        if (cancelled) {
+          return;
+        }
+        if (!data.success) {
+          setError(data.error);
+          setFiles([]);
+          return;
+        }
+        setFiles(data.files);
+        setTotal(data.total);
+      } catch {
+        if (!cancelled) {
+          setError('Failed to connect to the server. Please try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, search, page]);
+
+  const handleTeamKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // Enter loads the team instead of submitting the conversion form
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      loadProjects();
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="file-picker">
+      <div className="picker-row">
+        <input
+          type="text"
+          value={teamInput}
+          onChange={(e) => setTeamInput(e.target.value)}
+          onKeyDown={handleTeamKeyDown}
+          placeholder="Team ID or https://www.figma.com/files/team/..."
+          aria-label="Team"
+          disabled={disabled}
+        />
+        <button type="button" className="picker-button" onClick={loadProjects} disabled={disabled || isLoading}>
+          Load projects
+        </button>
+      </div>
+
+      {projects.length > 0 && (
+        <div className="picker-row">
+          <select
+            aria-label="Project"
+            value={projectId}
+            onChange={(e) => {
+              setProjectId(e.target.value);
+              setPage(1);
+            }}
+            disabled={disabled}
+          >
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search files"
+            aria-label="Search files"
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {error && <span className="error-message">{error}</span>}
+
+      {projectId && !error && (
+        <>
+          <ul className={`file-grid${isLoading ? ' loading' : ''}`}>
+            {files.map((file) => (
+              <li key={file.key}>
+                <button
+                  type="button"
+                  className={file.key === selectedKey ? 'selected' : ''}
+                  onClick={() => {
+                    setSelectedKey(file.key);
+                    onSelect(file);
+                  }}
+                  disabled={disabled}
+                >
+                  {file.thumbnailUrl ? (
+                    <img src={file.thumbnailUrl} alt="" loading="lazy" />
+                  ) : (
+                    <span className="thumbnail-placeholder" />
+                  )}
+                  <span className="file-name">{file.name}</span>
+                  <small>Edited {new Date(file.lastModified).toLocaleDateString()}</small>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {!isLoading && files.length === 0 && (
+            <small>{search ? `No files match “${search}”` : 'This project has no files'}</small>
+          )}
+
+          {pageCount > 1 && (
+            <div className="pagination">
+              <button type="button" className="link-button" onClick={() => setPage(page - 1)} disabled={page <= 1 || isLoading}>
+                ← Previous
+              </button>
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <button type="button" className="link-button" onClick={() => setPage(page + 1)} disabled={page >= pageCount || isLoading}>
+                Next →
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default FilePicker;
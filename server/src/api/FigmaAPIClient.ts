@@ -1,7 +1,29 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import type { FigmaFile } from '../types/figma.js';
+import type {
+  FigmaFile,
+  FigmaNode,
+  FigmaComponent,
+  FigmaStyle,
+  FigmaPublishedStyle,
+  FigmaLocalVariables,
+  FigmaNodesResponse,
+  FigmaVersion,
+  FigmaVersionsResponse,
+  FigmaTeamProjectsResponse,
+  FigmaProjectFilesResponse,
+} from '../types/figma.js';
+import type { RasterFormat, StyleDefinition } from '../types/internal.js';
+import { HTTPFixtures, FixtureNotFoundError } from './HTTPFixtures.js';
+import { FigmaCache } from './FigmaCache.js';
+import { RateLimiter, sharedRateLimiter } from './RateLimiter.js';
+import { buildSelectionDocument } from '../utils/helpers.js';
 import { logger } from '../utils/logger.js';
 
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
 export class FigmaAPIError extends Error {
   constructor(
     message: string,
@@ -13,53 +35,244 @@ export class FigmaAPIError extends Error {
   }
 }
 
+export interface FileRequestOptions {
+  // Version ID from the file's version history; omit for the latest state
+  version?: string;
+  // 'paths' adds fillGeometry/strokeGeometry to vector nodes
+  geometry?: 'paths';
+}
+
+export interface ImageRenderOptions extends FileRequestOptions {
+  format?: RasterFormat;
+  // 0.01 to 4; only applies to png and jpg
+  scale?: number;
+}
+
+// Local throttling shorter than this is not worth reporting
+const RATE_LIMIT_REPORT_THRESHOLD_MS = 1000;
+
+// A personal access token, or an OAuth2 access token sent as a bearer token
+export type FigmaCredentials =
+  | { type: 'personal'; token: string }
+  | { type: 'oauth'; accessToken: string };
+
+export interface FigmaClientOptions {
+  // Record/replay HTTP traffic; defaults to FIGMA_FIXTURES_* env settings
+  fixtures?: HTTPFixtures | null;
+  // Persistent response cache; defaults to the shared FIGMA_CACHE_* cache
+  cache?: FigmaCache | null;
+  // Shared request budget; defaults to the process-wide limiter
+  rateLimiter?: RateLimiter;
+  // Retries after the first attempt (FIGMA_MAX_RETRIES, default 2)
+  maxRetries?: number;
+  // Per-request timeout in ms (FIGMA_TIMEOUT_MS, default 30000)
+  timeout?: number;
+  // Longest Retry-After worth waiting for (FIGMA_MAX_RETRY_AFTER_MS, default 60000)
+  maxRetryAfterMs?: number;
+}
+
 export class FigmaAPIClient {
   private client: AxiosInstance;
   private apiKey: string;
+  private cache: FigmaCache | null;
+  private rateLimiter: RateLimiter;
+  private maxRetries: number;
+  private maxRetryAfterMs: number;
+  // Latest version stamp seen per file, reused to key component metadata
+  private stamps = new Map<string, string>();
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(credentials: string | FigmaCredentials, options: FigmaClientOptions = {}) {
+    const auth: FigmaCredentials = typeof credentials === 'string'
+      ? { type: 'personal', token: credentials }
+      : credentials;
+    const fixtures = options.fixtures !== undefined ? options.fixtures : HTTPFixtures.fromEnv();
+    this.cache = options.cache !== undefined ? options.cache : FigmaCache.fromEnv();
+    this.rateLimiter = options.rateLimiter || sharedRateLimiter;
+    this.maxRetries = options.maxRetries ?? envNumber('FIGMA_MAX_RETRIES', 2);
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? envNumber('FIGMA_MAX_RETRY_AFTER_MS', 60000);
+    this.apiKey = auth.type === 'personal' ? auth.token : auth.accessToken;
     this.client = axios.create({
       baseURL: 'https://api.figma.com/v1',
-      headers: {
-        'X-Figma-Token': apiKey,
-      },
-      timeout: 30000,
+      headers: auth.type === 'personal'
+        ? { 'X-Figma-Token': auth.token }
+        : { Authorization: `Bearer ${auth.accessToken}` },
+      timeout: options.timeout ?? envNumber('FIGMA_TIMEOUT_MS', 30000),
     });
+
+    // Record or replay API traffic when fixtures are configured
+    fixtures?.attach(this.client);
   }
 
-  async getFile(fileId: string): Promise<FigmaFile> {
+  async getFile(fileId: string, options: FileRequestOptions = {}): Promise<FigmaFile> {
     try {
-      logger.info(`Fetching Figma file: ${fileId}`);
+      const cacheKey = { fileId, kind: 'file' as const, variant: this.fileVariant(options) };
+      const stamp = this.cache ? await this.revalidate(fileId, options) : null;
+      if (this.cache && stamp) {
+        const cached = await this.cache.get<FigmaFile>(cacheKey, stamp);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      logger.info(`Fetching Figma file: ${fileId}${options.version ? ` @ version ${options.version}` : ''}`);
       
       const response = await this.retryRequest(async () => {
-        return await this.client.get<FigmaFile>(`/files/${fileId}`);
+        return await this.client.get<FigmaFile>(`/files/${fileId}`, {
+          params: this.fileParams(options),
+        });
       });
 
-      logger.info(`Successfully fetched Figma file: ${fileId}`);
+      logger.info(`Successfully fetched Figma file: ${fileId} (version ${response.data.version})`);
+      if (this.cache && stamp) {
+        await this.cache.set(cacheKey, stamp, response.data);
+      }
       return response.data;
     } catch (error) {
       return this.handleError(error, fileId);
     }
   }
 
+  async getFileNodes(fileId: string, nodeIds: string[], options: FileRequestOptions = {}): Promise<FigmaFile> {
+    try {
+      const cacheKey = { fileId, kind: 'nodes' as const, variant: `${this.fileVariant(options)}:${nodeIds.join(',')}` };
+      const stamp = this.cache ? await this.revalidate(fileId, options) : null;
+      if (this.cache && stamp) {
+        const cached = await this.cache.get<FigmaFile>(cacheKey, stamp);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      logger.info(`Fetching ${nodeIds.length} nodes from Figma file: ${fileId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<FigmaNodesResponse>(`/files/${fileId}/nodes`, {
+          params: {
+            ids: nodeIds.join(','),
+            ...this.fileParams(options),
+          },
+        });
+      });
+
+      const data = response.data;
+      const selected: FigmaNode[] = [];
+      const components: Record<string, FigmaComponent> = {};
+      const styles: Record<string, FigmaStyle> = {};
+
+      for (const nodeId of nodeIds) {
+        const entry = data.nodes?.[nodeId];
+        if (!entry) {
+          logger.warn(`Node ${nodeId} was not found in file ${fileId}; skipping it`);
+          continue;
+        }
+        selected.push(entry.document);
+        Object.assign(components, entry.components);
+        Object.assign(styles, entry.styles);
+      }
+
+      if (selected.length === 0) {
+        throw new FigmaAPIError(`None of the requested nodes were found in file ${fileId}: ${nodeIds.join(', ')}`, 404);
+      }
+
+      logger.info(`Successfully fetched ${selected.length} nodes from file: ${fileId}`);
+      const figmaFile: FigmaFile = {
+        document: buildSelectionDocument(selected),
+        components,
+        schemaVersion: data.schemaVersion ?? 0,
+        styles,
+        name: data.name,
+        lastModified: data.lastModified,
+        thumbnailUrl: data.thumbnailUrl,
+        version: data.version,
+      };
+      if (this.cache && stamp) {
+        await this.cache.set(cacheKey, stamp, figmaFile);
+      }
+      return figmaFile;
+    } catch (error) {
+      if (error instanceof FigmaAPIError) {
+        throw error;
+      }
+      return this.handleError(error, fileId);
+    }
+  }
+
+  async getVersions(fileId: string): Promise<FigmaVersion[]> {
+    try {
+      logger.info(`Fetching version history for file: ${fileId}`);
+
+      // Figma pages the history; each page links to the next, older one
+      const versions: FigmaVersion[] = [];
+      let url: string | undefined = `/files/${fileId}/versions`;
+      while (url) {
+        const pageUrl: string = url;
+        const response = await this.retryRequest(async () => {
+          return await this.client.get<FigmaVersionsResponse>(pageUrl);
+        });
+        versions.push(...response.data.versions);
+        url = response.data.pagination?.next_page;
+      }
+
+      logger.info(`Successfully fetched ${versions.length} versions`);
+      return versions;
+    } catch (error) {
+      return this.handleError(error, fileId);
+    }
+  }
+
+  async getTeamProjects(teamId: string): Promise<FigmaTeamProjectsResponse> {
+    try {
+      logger.info(`Fetching projects for team: ${teamId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<FigmaTeamProjectsResponse>(`/teams/${teamId}/projects`);
+      });
+
+      logger.info(`Successfully fetched ${response.data.projects.length} projects`);
+      return response.data;
+    } catch (error) {
+      return this.handleError(error, teamId, 'team');
+    }
+  }
+
+  async getProjectFiles(projectId: string): Promise<FigmaProjectFilesResponse> {
+    try {
+      logger.info(`Fetching files for project: ${projectId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<FigmaProjectFilesResponse>(`/projects/${projectId}/files`);
+      });
+
+      logger.info(`Successfully fetched ${response.data.files.length} files`);
+      return response.data;
+    } catch (error) {
+      return this.handleError(error, projectId, 'project');
+    }
+  }
+
   async getImageUrls(
     fileId: string,
-    nodeIds: string[]
+    nodeIds: string[],
+    options: ImageRenderOptions = {}
   ): Promise<Record<string, string>> {
     if (nodeIds.length === 0) {
       return {};
     }
 
+    const format = options.format || 'png';
+    const scale = options.scale ?? 2;
+
     try {
-      logger.info(`Fetching image URLs for ${nodeIds.length} nodes`);
+      logger.info(`Fetching ${format} image URLs for ${nodeIds.length} nodes`);
       
       const response = await this.retryRequest(async () => {
         return await this.client.get(`/images/${fileId}`, {
           params: {
             ids: nodeIds.join(','),
-            format: 'png',
-            scale: 2,
+            format,
+            // Vector formats ignore scale
+            ...(format === 'png' || format === 'jpg' ? { scale } : {}),
+            ...(options.version ? { version: options.version } : {}),
           },
         });
       });
@@ -73,8 +286,42 @@ export class FigmaAPIClient {
     }
   }
 
+  /**
+   * Download URLs for every image used as a fill, keyed by imageRef. These
+   * are the original uploads, not renders of the nodes that use them.
+   */
+  async getImageFills(fileId: string): Promise<Record<string, string>> {
+    try {
+      logger.info(`Fetching image fills for file: ${fileId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<{ meta?: { images?: Record<string, string> } }>(`/files/${fileId}/images`);
+      });
+
+      const images = response.data.meta?.images || {};
+      logger.info(`Successfully fetched ${Object.keys(images).length} image fill URLs`);
+      return images;
+    } catch (error) {
+      const reason = axios.isAxiosError(error) && error.response?.status === 429
+        ? 'rate limited'
+        : error instanceof Error ? error.message : String(error);
+      logger.warn(`Image fills unavailable (${reason}); images are missing from the export`);
+      return {};
+    }
+  }
+
   async getFileComponents(fileId: string): Promise<Record<string, any>> {
     try {
+      // Component metadata only changes with the file, so reuse the stamp from getFile
+      const cacheKey = { fileId, kind: 'components' as const };
+      const stamp = this.stamps.get(fileId);
+      if (this.cache && stamp) {
+        const cached = await this.cache.get<Record<string, any>>(cacheKey, stamp);
+        if (cached) {
+          return cached;
+        }
+      }
+
       logger.info(`Fetching components for file: ${fileId}`);
       
       const response = await this.retryRequest(async () => {
@@ -82,36 +329,195 @@ export class FigmaAPIClient {
       });
 
       logger.info(`Successfully fetched components`);
-      return response.data.meta?.components || {};
+      const components = response.data.meta?.components || {};
+      if (this.cache && stamp) {
+        await this.cache.set(cacheKey, stamp, components);
+      }
+      return components;
     } catch (error) {
-      logger.warn('Failed to fetch components', { error });
+      const reason = axios.isAxiosError(error) && error.response?.status === 429
+        ? 'rate limited'
+        : error instanceof Error ? error.message : String(error);
+      logger.warn(`Component metadata unavailable (${reason}); instances are converted as plain frames`);
       return {};
     }
   }
 
-  async getFileStyles(fileId: string): Promise<Record<string, any>> {
+  /**
+   * Local variables and their collections. The endpoint needs the
+   * file_variables:read scope and an Enterprise plan, so failure is
+   * expected for many files and only reported as a warning.
+   */
+  async getLocalVariables(fileId: string): Promise<FigmaLocalVariables | null> {
+    try {
+      const cacheKey = { fileId, kind: 'variables' as const };
+      const stamp = this.stamps.get(fileId);
+      if (this.cache && stamp) {
+        const cached = await this.cache.get<FigmaLocalVariables>(cacheKey, stamp);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      logger.info(`Fetching variables for file: ${fileId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<{ meta?: FigmaLocalVariables }>(`/files/${fileId}/variables/local`);
+      });
+
+      const variables: FigmaLocalVariables = {
+        variables: response.data.meta?.variables || {},
+        variableCollections: response.data.meta?.variableCollections || {},
+      };
+      logger.info(`Successfully fetched ${Object.keys(variables.variables).length} variables`);
+
+      if (this.cache && stamp) {
+        await this.cache.set(cacheKey, stamp, variables);
+      }
+      return variables;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const reason = status === 403
+        ? 'no access to the variables API for this file'
+        : status === 429
+          ? 'rate limited'
+          : error instanceof Error ? error.message : String(error);
+      logger.warn(`Variables unavailable (${reason}); bound values are converted as literals`);
+      return null;
+    }
+  }
+
+  /**
+   * Published styles for a file, keyed by style node ID so they line up
+   * with the style references on document nodes.
+   */
+  async getFileStyles(fileId: string): Promise<Record<string, FigmaStyle>> {
     try {
       logger.info(`Fetching styles for file: ${fileId}`);
       
       const response = await this.retryRequest(async () => {
-        return await this.client.get(`/files/${fileId}/styles`);
+        return await this.client.get<{ meta?: { styles?: FigmaPublishedStyle[] } }>(`/files/${fileId}/styles`);
       });
 
-      logger.info(`Successfully fetched styles`);
-      return response.data.meta?.styles || {};
+      const styles: Record<string, FigmaStyle> = {};
+      for (const style of response.data.meta?.styles || []) {
+        styles[style.node_id] = {
+          key: style.key,
+          name: style.name,
+          styleType: style.style_type,
+          description: style.description,
+        };
+      }
+
+      logger.info(`Successfully fetched ${Object.keys(styles).length} styles`);
+      return styles;
     } catch (error) {
       logger.warn('Failed to fetch styles', { error });
       return {};
     }
   }
 
+  /**
+   * Values of the published styles, read from their definition nodes and
+   * keyed by style node ID. Layers can override a style locally, so these
+   * are the style's own values.
+   */
+  async getStyleDefinitions(
+    fileId: string,
+    styles: Record<string, FigmaStyle>,
+    options: FileRequestOptions = {}
+  ): Promise<Record<string, StyleDefinition>> {
+    const styleIds = Object.keys(styles);
+    if (styleIds.length === 0) {
+      return {};
+    }
+
+    try {
+      logger.info(`Fetching ${styleIds.length} style definitions for file: ${fileId}`);
+
+      const response = await this.retryRequest(async () => {
+        return await this.client.get<FigmaNodesResponse>(`/files/${fileId}/nodes`, {
+          params: {
+            ids: styleIds.join(','),
+            ...this.fileParams(options),
+          },
+        });
+      });
+
+      const definitions: Record<string, StyleDefinition> = {};
+      for (const styleId of styleIds) {
+        const node = response.data.nodes?.[styleId]?.document;
+        if (!node) {
+          continue;
+        }
+
+        const { name, styleType } = styles[styleId];
+        definitions[styleId] = {
+          name,
+          styleType,
+          fills: styleType === 'FILL' ? node.fills : undefined,
+          effects: styleType === 'EFFECT' ? node.effects : undefined,
+          textStyle: styleType === 'TEXT' ? node.style : undefined,
+        };
+      }
+
+      logger.info(`Successfully fetched ${Object.keys(definitions).length} style definitions`);
+      return definitions;
+    } catch (error) {
+      logger.warn('Failed to fetch style definitions', { error });
+      return {};
+    }
+  }
+
+  private fileParams(options: FileRequestOptions): Record<string, string> | undefined {
+    const params: Record<string, string> = {};
+    if (options.version) params.version = options.version;
+    if (options.geometry) params.geometry = options.geometry;
+    return Object.keys(params).length > 0 ? params : undefined;
+  }
+
+  private fileVariant(options: FileRequestOptions): string {
+    const version = options.version || 'latest';
+    return options.geometry ? `${version}:geometry=${options.geometry}` : version;
+  }
+
+  /**
+   * Cheap freshness check: a depth=1 request returns the file's current
+   * version and lastModified without the document tree. It also proves the
+   * caller's key can still read the file before anything cached is served.
+   * A pinned version never changes, so its ID is the stamp and the cached
+   * entry is served without asking.
+   */
+  private async revalidate(fileId: string, options: FileRequestOptions): Promise<string> {
+    if (options.version) {
+      return `version:${options.version}`;
+    }
+
+    const response = await this.retryRequest(async () => {
+      return await this.client.get<Pick<FigmaFile, 'version' | 'lastModified'>>(`/files/${fileId}`, {
+        params: { depth: 1 },
+      });
+    });
+
+    const stamp = `${response.data.version}:${response.data.lastModified}`;
+    this.stamps.set(fileId, stamp);
+    return stamp;
+  }
+
   private async retryRequest<T>(
-    requestFn: () => Promise<T>,
-    maxRetries: number = 3
+    requestFn: () => Promise<T>
   ): Promise<T> {
+    const maxAttempts = this.maxRetries + 1;
     let lastError: any;
+    let honoringRetryAfter = false;
     
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Every request draws from the process-wide budget
+      const waited = await this.rateLimiter.acquire();
+      if (waited >= RATE_LIMIT_REPORT_THRESHOLD_MS && !honoringRetryAfter) {
+        logger.warn(`Figma rate limit: waited ${(waited / 1000).toFixed(1)}s for the shared request budget`);
+      }
+
       try {
         return await requestFn();
       } catch (error) {
@@ -124,12 +530,30 @@ export class FigmaAPIClient {
           if (statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
             throw error;
           }
+
+          const retryAfter = statusCode === 429 ? this.parseRetryAfter(error.response?.headers['retry-after']) : null;
+          if (retryAfter !== null) {
+            if (retryAfter > this.maxRetryAfterMs) {
+              logger.warn(`Figma rate limit: Retry-After of ${Math.round(retryAfter / 1000)}s exceeds the ${Math.round(this.maxRetryAfterMs / 1000)}s limit; giving up`);
+              throw error;
+            }
+            // Pause every client, not just this request
+            this.rateLimiter.pauseFor(retryAfter);
+          }
+          honoringRetryAfter = retryAfter !== null;
           
           // Retry on server errors (5xx) or rate limiting (429)
-          if (attempt < maxRetries) {
-            const delay = this.getRetryDelay(attempt, statusCode);
-            logger.warn(`Request failed, retrying in ${delay}ms (attempt ${attempt}/${maxRetries})`);
-            await this.sleep(delay);
+          if (attempt < maxAttempts) {
+            const delay = retryAfter ?? this.getRetryDelay(attempt);
+            if (statusCode === 429) {
+              logger.warn(`Figma rate limit (429): waiting ${(delay / 1000).toFixed(1)}s${retryAfter !== null ? ' as requested by Retry-After' : ''} before retrying (attempt ${attempt}/${maxAttempts})`);
+            } else {
+              logger.warn(`Request failed, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${maxAttempts})`);
+            }
+            // With Retry-After the limiter holds the next acquire() until the pause ends
+            if (retryAfter === null) {
+              await this.sleep(delay);
+            }
             continue;
           }
         }
@@ -141,7 +565,7 @@ export class FigmaAPIClient {
     throw lastError;
   }
 
-  private getRetryDelay(attempt: number, statusCode?: number): number {
+  private getRetryDelay(attempt: number): number {
     // Exponential backoff: 1s, 2s, 4s
     const baseDelay = Math.pow(2, attempt - 1) * 1000;
     
@@ -151,11 +575,26 @@ export class FigmaAPIClient {
     return baseDelay + jitter;
   }
 
+  private parseRetryAfter(header: unknown): number | null {
+    if (header === undefined || header === null || header === '') {
+      return null;
+    }
+
+    // Either delta-seconds or an HTTP date
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(header));
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private handleError(error: any, fileId: string): never {
+  private handleError(error: any, fileId: string, resource: 'file' | 'team' | 'project' = 'file'): never {
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError;
       const statusCode = axiosError.response?.status;
@@ -164,9 +603,9 @@ export class FigmaAPIClient {
       let message = 'Failed to fetch Figma file';
       
       if (statusCode === 401 || statusCode === 403) {
-        message = 'Invalid Figma API key. Please check your API key and try again.';
+        message = 'Invalid Figma API key or access token. Please check your credentials or sign in again.';
       } else if (statusCode === 404) {
-        message = `Figma file not found: ${fileId}. Please check the file ID or URL.`;
+        message = `Figma ${resource} not found: ${fileId}. Please check the ${resource} ID or URL.`;
       } else if (statusCode === 429) {
         message = 'Rate limit exceeded. Please try again in a few moments.';
       } else if (axiosError.code === 'ECONNABORTED') {
@@ -183,6 +622,11 @@ export class FigmaAPIClient {
       throw new FigmaAPIError(message, statusCode, error);
     }
 
+    if (error instanceof FixtureNotFoundError) {
+      logger.error(error.message, { fileId });
+      throw new FigmaAPIError(error.message, undefined, error);
+    }
+
     // Unknown error
     logger.error('Unknown error fetching Figma file', { fileId, error });
     throw new FigmaAPIError(
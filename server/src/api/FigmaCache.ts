@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+
+export interface FigmaCacheConfig {
+  dir: string;
+  maxBytes: number;
+}
+
+export interface CacheKey {
+  fileId: string;
+  kind: 'file' | 'nodes' | 'components' | 'variables';
+  // Distinguishes requests for the same file, e.g. a pinned version or node list
+  variant?: string;
+}
+
+interface CacheEntry<T> {
+  fileId: string;
+  kind: string;
+  variant: string;
+  stamp: string;
+  data: T;
+}
+
+interface IndexEntry {
+  size: number;
+  lastAccess: number;
+}
+
+const DEFAULT_MAX_MB = 500;
+
+/**
+ * Disk-backed store for Figma API responses. Each entry carries the
+ * file's version/lastModified stamp it was fetched at; a lookup with a
+ * different stamp is a miss and the next write replaces the entry in
+ * place. The directory is kept under maxBytes by evicting the least
+ * recently used entries.
+ */
+export class FigmaCache {
+  private static shared: FigmaCache | null | undefined;
+  private index: Map<string, IndexEntry> | null = null;
+  private totalBytes = 0;
+
+  constructor(private config: FigmaCacheConfig) {}
+
+  // FIGMA_CACHE=off disables; FIGMA_CACHE_DIR and FIGMA_CACHE_MAX_MB configure
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): FigmaCache | null {
+    if (FigmaCache.shared !== undefined) {
+      return FigmaCache.shared;
+    }
+
+    if (env.FIGMA_CACHE === 'off' || env.FIGMA_CACHE === 'false') {
+      FigmaCache.shared = null;
+      return null;
+    }
+
+    const maxMb = Number(env.FIGMA_CACHE_MAX_MB) > 0 ? Number(env.FIGMA_CACHE_MAX_MB) : DEFAULT_MAX_MB;
+    FigmaCache.shared = new FigmaCache({
+      dir: env.FIGMA_CACHE_DIR || path.join(os.tmpdir(), 'figma-to-html-cache'),
+      maxBytes: maxMb * 1024 * 1024,
+    });
+    return FigmaCache.shared;
+  }
+
+  async get<T>(key: CacheKey, stamp: string): Promise<T | null> {
+    const entryPath = this.entryPath(key);
+
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await fs.readFile(entryPath, 'utf8'));
+      if (entry.stamp !== stamp) {
+        logger.debug(`Cache stale for ${key.kind} ${key.fileId} (${entry.stamp} → ${stamp})`);
+        return null;
+      }
+
+      await this.touch(entryPath);
+      logger.info(`Cache hit for ${key.kind} ${key.fileId}`);
+      return entry.data;
+    } catch {
+      logger.debug(`Cache miss for ${key.kind} ${key.fileId}`);
+      return null;
+    }
+  }
+
+  async set<T>(key: CacheKey, stamp: string, data: T): Promise<void> {
+    const entryPath = this.entryPath(key);
+    const entry: CacheEntry<T> = {
+      fileId: key.fileId,
+      kind: key.kind,
+      variant: key.variant || '',
+      stamp,
+      data,
+    };
+
+    try {
+      const body = JSON.stringify(entry);
+      const size = Buffer.byteLength(body);
+
+      if (size > this.config.maxBytes) {
+        logger.debug(`Not caching ${key.kind} ${key.fileId}: ${size} bytes exceeds the cache limit`);
+        return;
+      }
+
+      const index = await this.loadIndex();
+      await fs.mkdir(this.config.dir, { recursive: true });
+      await fs.writeFile(entryPath, body);
+
+      this.totalBytes -= index.get(entryPath)?.size || 0;
+      index.set(entryPath, { size, lastAccess: Date.now() });
+      this.totalBytes += size;
+
+      await this.evict();
+    } catch (error: any) {
+      logger.warn(`Failed to write Figma cache entry for ${key.fileId}: ${error.message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.config.dir, { recursive: true, force: true });
+    this.index = new Map();
+    this.totalBytes = 0;
+  }
+
+  private entryPath(key: CacheKey): string {
+    const variant = createHash('sha1').update(key.variant || '').digest('hex').slice(0, 12);
+    const fileId = key.fileId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.config.dir, `${fileId}.${key.kind}.${variant}.json`);
+  }
+
+  private async touch(entryPath: string): Promise<void> {
+    const index = await this.loadIndex();
+    const entry = index.get(entryPath);
+    const now = Date.now();
+
+    if (entry) {
+      entry.lastAccess = now;
+    }
+    // Persist recency in mtime so LRU order survives restarts
+    await fs.utimes(entryPath, new Date(now), new Date(now)).catch(() => undefined);
+  }
+
+  private async loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = new Map();
+    this.totalBytes = 0;
+
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.config.dir);
+    } catch {
+      return this.index;
+    }
+
+    for (const name of names.filter(n => n.endsWith('.json'))) {
+      const entryPath = path.join(this.config.dir, name);
+      try {
+        const stat = await fs.stat(entryPath);
+        this.index.set(entryPath, { size: stat.size, lastAccess: stat.mtimeMs });
+        this.totalBytes += stat.size;
+      } catch {
+        // Removed concurrently - ignore
+      }
+    }
+
+    return this.index;
+  }
+
+  private async evict(): Promise<void> {
+    if (!this.index || this.totalBytes <= this.config.maxBytes) {
+      return;
+    }
+
+    const byAge = [...this.index.entries()].sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    for (const [entryPath, entry] of byAge) {
+      if (this.totalBytes <= this.config.maxBytes) {
+        break;
+      }
+      await fs.rm(entryPath, { force: true });
+      this.index.delete(entryPath);
+      this.totalBytes -= entry.size;
+      logger.debug(`Evicted cache entry: ${path.basename(entryPath)}`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  dir: string;
+}
+
+interface FixtureFile {
+  request: {
+    method: string;
+    url: string;
+    params: Record<string, string>;
+  };
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  encoding: 'utf8' | 'base64';
+  body: string;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public method: string, public url: string, public fixturePath: string) {
+    super(`No recorded fixture for ${method} ${url} (expected ${fixturePath})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Records HTTP responses to a fixture directory, or serves them back
+ * without touching the network. Attach it to any axios instance; the
+ * Figma API client and the asset downloader both do so when configured.
+ */
+export class HTTPFixtures {
+  constructor(private config: FixtureConfig) {}
+
+  // Reads FIGMA_FIXTURES_MODE (record|replay) and FIGMA_FIXTURES_DIR
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): HTTPFixtures | null {
+    const mode = env.FIGMA_FIXTURES_MODE;
+    if (mode !== 'record' && mode !== 'replay') {
+      return null;
+    }
+    return new HTTPFixtures({ mode, dir: env.FIGMA_FIXTURES_DIR || 'fixtures/figma' });
+  }
+
+  get mode(): FixtureMode {
+    return this.config.mode;
+  }
+
+  attach(instance: AxiosInstance): void {
+    const networkAdapter = axios.getAdapter(instance.defaults.adapter);
+
+    instance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      if (this.config.mode === 'replay') {
+        return this.replay(config);
+      }
+
+      try {
+        const response = await networkAdapter(config);
+        await this.save(config, response);
+        return response;
+      } catch (error) {
+        // Error responses are part of the behaviour under test - keep them too
+        if (axios.isAxiosError(error) && error.response) {
+          await this.save(config, error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  fixturePath(config: InternalAxiosRequestConfig): string {
+    const { method, url, params } = this.describe(config);
+    const hash = createHash('sha1')
+      .update(JSON.stringify([method, url, params]))
+      .digest('hex')
+      .slice(0, 12);
+
+    // Keep a readable hint of the endpoint, without query strings or signed tokens
+    const slug = new URL(url).pathname
+      .replace(/^\/(v1\/)?/, '')
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+
+    return path.join(this.config.dir, `${method.toLowerCase()}-${slug || 'root'}-${hash}.json`);
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const fixturePath = this.fixturePath(config);
+    const { method, url } = this.describe(config);
+
+    let fixture: FixtureFile;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+    } catch {
+      throw new FixtureNotFoundError(method, url, fixturePath);
+    }
+
+    logger.debug(`Replaying fixture for ${method} ${url}`);
+
+    const response: AxiosResponse = {
+      data: fixture.encoding === 'base64' ? Buffer.from(fixture.body, 'base64') : fixture.body,
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus;
+    if (validateStatus && !validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+
+    return response;
+  }
+
+  private async save(config: InternalAxiosRequestConfig, response: AxiosResponse): Promise<void> {
+    const fixturePath = this.fixturePath(config);
+    const isBinary = Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer;
+
+    const fixture: FixtureFile = {
+      request: this.describe(config),
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.plainHeaders(response.headers),
+      encoding: isBinary ? 'base64' : 'utf8',
+      body: isBinary
+        ? Buffer.from(response.data).toString('base64')
+        : typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+    };
+
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+    logger.debug(`Recorded fixture: ${fixturePath}`);
+  }
+
+  private describe(config: InternalAxiosRequestConfig): FixtureFile['request'] {
+    const method = (config.method || 'get').toUpperCase();
+    const url = axios.getUri({ baseURL: config.baseURL, url: config.url });
+
+    // Sort params so the same request always maps to the same fixture
+    const params: Record<string, string> = {};
+    for (const key of Object.keys(config.params || {}).sort()) {
+      const value = config.params[key];
+      if (value !== undefined && value !== null) {
+        params[key] = String(value);
+      }
+    }
+
+    return { method, url, params };
+  }
+
+  private plainHeaders(headers: AxiosResponse['headers']): Record<string, string> {
+    // Auth-related headers never end up on disk
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers || {})) {
+      if (value !== undefined && value !== null && !/cookie|authorization|token/i.test(key)) {
+        result[key] = String(value);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,81 @@
+export interface RateLimiterConfig {
+  // Maximum burst of requests
+  capacity: number;
+  // Sustained request rate
+  refillPerSecond: number;
+}
+
+/**
+ * Token bucket shared by every FigmaAPIClient in the process, so parallel
+ * conversions draw from one budget instead of each backing off on its own.
+ * A 429's Retry-After pauses the whole bucket, not just the failing request.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: RateLimiterConfig) {
+    this.tokens = config.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // FIGMA_RATE_LIMIT_PER_MINUTE and FIGMA_RATE_LIMIT_BURST configure the budget
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): RateLimiter {
+    const perMinute = Number(env.FIGMA_RATE_LIMIT_PER_MINUTE) > 0 ? Number(env.FIGMA_RATE_LIMIT_PER_MINUTE) : 60;
+    const burst = Number(env.FIGMA_RATE_LIMIT_BURST) > 0 ? Number(env.FIGMA_RATE_LIMIT_BURST) : 10;
+    return new RateLimiter({ capacity: burst, refillPerSecond: perMinute / 60 });
+  }
+
+  /**
+   * Waits for a token and returns how long the caller was held back, in ms.
+   * Callers are served in arrival order.
+   */
+  acquire(): Promise<number> {
+    const start = Date.now();
+    const turn = this.queue.then(() => this.takeToken());
+    this.queue = turn.catch(() => undefined);
+    return turn.then(() => Date.now() - start);
+  }
+
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    // Requests already granted are in flight; don't let a refill undo the pause
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+  }
+
+  private async takeToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil((1 - this.tokens) / this.config.refillPerSecond * 1000));
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.config.refillPerSecond);
+      this.lastRefill = now;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const sharedRateLimiter = RateLimiter.fromEnv();
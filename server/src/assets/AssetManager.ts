@@ -1,62 +1,168 @@
-import axios from 'axios';
-import type { ParsedNode, Asset } from '../types/internal.js';
+import axios, { AxiosInstance } from 'axios';
+import type {
+  ParsedNode,
+  Asset,
+  SVGMode,
+  VectorGraphic,
+  RenderedImages,
+  RasterImage,
+} from '../types/internal.js';
+import { HTTPFixtures } from '../api/HTTPFixtures.js';
+import { SVGBuilder } from './SVGBuilder.js';
 import { logger } from '../utils/logger.js';
 
 export class AssetManager {
   private assets: Asset[] = [];
+  private imagePaths: Record<string, string> = {};
+  private vectors: Record<string, VectorGraphic> = {};
+  private rasters: Record<string, RasterImage> = {};
+  private svgBuilder = new SVGBuilder();
+  private http: AxiosInstance;
 
+  constructor(fixtures: HTTPFixtures | null = HTTPFixtures.fromEnv()) {
+    this.http = axios.create();
+    fixtures?.attach(this.http);
+  }
+
+  /**
+   * Downloads the original bitmap behind every image fill. imageUrls is
+   * keyed by imageRef; an image shared by several nodes is fetched and
+   * written once. A node ID key is still honoured for callers that only
+   * have per-node URLs.
+   */
   async exportImages(fileId: string, nodes: ParsedNode[], imageUrls: Record<string, string>): Promise<Asset[]> {
     this.assets = [];
+    this.imagePaths = {};
     
-    // Collect all nodes with image fills
-    const imageNodes = this.collectImageNodes(nodes);
+    // Collect every image fill, grouped by the image it shows
+    const imageRefs = this.collectImageRefs(nodes);
     
-    logger.info(`Found ${imageNodes.length} nodes with images`);
+    logger.info(`Found ${imageRefs.size} distinct images`);
 
     // Download images
-    for (const node of imageNodes) {
-      const imageUrl = imageUrls[node.id];
+    for (const [imageRef, users] of imageRefs) {
+      const imageUrl = imageUrls[imageRef] ?? imageUrls[users[0].id];
       
       if (imageUrl) {
         try {
-          const asset = await this.downloadAsset(node.id, imageUrl);
+          const asset = await this.downloadAsset(imageRef, imageUrl);
           this.assets.push(asset);
+          this.imagePaths[imageRef] = asset.localPath;
         } catch (error) {
-          logger.error(`Failed to download image for node ${node.id}`, { error });
+          logger.error(`Failed to download image ${imageRef}`, { error });
         }
+      } else {
+        // Offline conversions have no image URLs - report instead of failing
+        const names = users.map(node => `"${node.name}"`).join(', ');
+        logger.warn(`No image URL for image ${imageRef} (used by ${names}); the image is missing from the export`);
       }
     }
 
-    // Handle vector nodes
-    const vectorNodes = this.collectVectorNodes(nodes);
-    logger.info(`Found ${vectorNodes.length} vector nodes`);
+    logger.info(`Exported ${this.assets.length} image assets`);
+    return this.assets;
+  }
+
+  /**
+   * Builds an SVG for every vector, boolean and icon node. In 'file' mode
+   * each one is also written to assets/; 'inline' mode only keeps the
+   * markup for the HTML. Returns the assets added.
+   */
+  exportVectors(nodes: ParsedNode[], mode: SVGMode): Asset[] {
+    this.vectors = {};
+    const added: Asset[] = [];
+
+    const graphicNodes = this.svgBuilder.collectGraphics(nodes);
+    logger.info(`Found ${graphicNodes.length} vector graphics`);
+
+    for (const node of graphicNodes) {
+      const graphic = this.svgBuilder.build(node);
+      if (!graphic) {
+        logger.warn(`No path geometry for vector "${node.name}" (${node.id}); it is exported as an empty box`);
+        continue;
+      }
+
+      const localPath = `assets/${node.id.replace(/[^a-zA-Z0-9_-]+/g, '-')}.svg`;
+      this.vectors[node.id] = { ...graphic, localPath };
 
-    for (const node of vectorNodes) {
-      const svg = this.convertToSVG(node);
-      if (svg) {
-        this.assets.push({
+      if (mode === 'file') {
+        const asset: Asset = {
           id: node.id,
           url: '',
-          localPath: `assets/${node.id}.svg`,
+          localPath,
           format: 'svg',
-        });
+          data: Buffer.from(this.svgBuilder.toDocument(graphic)),
+        };
+        this.assets.push(asset);
+        added.push(asset);
       }
     }
 
-    logger.info(`Exported ${this.assets.length} assets`);
-    return this.assets;
+    return added;
+  }
+
+  /**
+   * Downloads node renders from the images endpoint, one file per node and
+   * scale (assets/<node>@2x.png). Vector formats have a single rendition.
+   */
+  async exportRenders(nodes: ParsedNode[], renders: RenderedImages): Promise<Asset[]> {
+    this.rasters = {};
+    const added: Asset[] = [];
+    const isVectorFormat = renders.format === 'svg' || renders.format === 'pdf';
+    const scales = Object.keys(renders.urls).map(Number).sort((a, b) => a - b);
+
+    const traverse = async (node: ParsedNode) => {
+      const rendered = scales.filter(scale => renders.urls[scale]?.[node.id]);
+      if (rendered.length === 0) {
+        for (const child of node.children) {
+          await traverse(child);
+        }
+        return;
+      }
+
+      const baseName = node.id.replace(/[^a-zA-Z0-9_-]+/g, '-');
+      const raster: RasterImage = {
+        format: renders.format,
+        width: Math.round(node.bounds.width),
+        height: Math.round(node.bounds.height),
+        sources: [],
+      };
+
+      for (const scale of isVectorFormat ? rendered.slice(0, 1) : rendered) {
+        try {
+          const asset = await this.downloadAsset(isVectorFormat ? baseName : `${baseName}@${scale}x`, renders.urls[scale][node.id]);
+          asset.scale = scale;
+          this.assets.push(asset);
+          added.push(asset);
+          raster.sources.push({ scale, localPath: asset.localPath });
+        } catch (error) {
+          logger.error(`Failed to download ${scale}x render of "${node.name}" (${node.id})`, { error });
+        }
+      }
+
+      if (raster.sources.length > 0) {
+        this.rasters[node.id] = raster;
+      }
+    };
+
+    for (const node of nodes) {
+      await traverse(node);
+    }
+
+    logger.info(`Exported ${added.length} rendered images for ${Object.keys(this.rasters).length} nodes`);
+    return added;
   }
 
   async downloadAsset(nodeId: string, url: string): Promise<Asset> {
     logger.debug(`Downloading asset: ${nodeId}`);
     
     try {
-      const response = await axios.get(url, {
+      const response = await this.http.get(url, {
         responseType: 'arraybuffer',
         timeout: 30000,
       });
 
-      const format = this.detectImageFormat(response.data);
+      const data = Buffer.from(response.data);
+      const format = this.detectImageFormat(data);
       const localPath = `assets/${nodeId}.${format}`;
 
       return {
@@ -64,6 +170,7 @@ export class AssetManager {
         url,
         localPath,
         format,
+        data,
       };
     } catch (error) {
       logger.error(`Failed to download asset ${nodeId}`, { error });
@@ -79,38 +186,37 @@ export class AssetManager {
     return this.assets;
   }
 
-  private collectImageNodes(nodes: ParsedNode[]): ParsedNode[] {
-    const imageNodes: ParsedNode[] = [];
-
-    const traverse = (node: ParsedNode) => {
-      // Check if node has image fills
-      const hasImageFill = node.styles.fills.some(fill => fill.type === 'IMAGE');
-      
-      if (hasImageFill) {
-        imageNodes.push(node);
-      }
-
-      // Traverse children
-      for (const child of node.children) {
-        traverse(child);
-      }
-    };
+  // imageRef → path inside the export, for the fills that were downloaded
+  getImagePaths(): Record<string, string> {
+    return this.imagePaths;
+  }
 
-    for (const node of nodes) {
-      traverse(node);
-    }
+  // Node ID → renditions downloaded by exportRenders
+  getRasters(): Record<string, RasterImage> {
+    return this.rasters;
+  }
 
-    return imageNodes;
+  // Node ID → SVG built by exportVectors
+  getVectors(): Record<string, VectorGraphic> {
+    return this.vectors;
   }
 
-  private collectVectorNodes(nodes: ParsedNode[]): ParsedNode[] {
-    const vectorNodes: ParsedNode[] = [];
+  private collectImageRefs(nodes: ParsedNode[]): Map<string, ParsedNode[]> {
+    const imageRefs = new Map<string, ParsedNode[]>();
 
     const traverse = (node: ParsedNode) => {
-      if (node.type === 'VECTOR') {
-        vectorNodes.push(node);
+      // A node may stack several images, and many nodes may share one
+      for (const fill of node.styles.fills) {
+        if (fill.type === 'IMAGE' && fill.imageRef) {
+          const users = imageRefs.get(fill.imageRef) || [];
+          if (!users.includes(node)) {
+            users.push(node);
+          }
+          imageRefs.set(fill.imageRef, users);
+        }
       }
 
+      // Traverse children
       for (const child of node.children) {
         traverse(child);
       }
@@ -120,28 +226,10 @@ export class AssetManager {
       traverse(node);
     }
 
-    return vectorNodes;
-  }
-
-  private convertToSVG(node: ParsedNode): string | null {
-    // Basic SVG generation for simple shapes
-    const { width, height } = node.bounds;
-    
-    if (width === 0 || height === 0) {
-      return null;
-    }
-
-    // Create a basic SVG placeholder
-    // In a real implementation, this would parse Figma vector data
-    const svg = `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
-  <!-- Vector: ${node.name} -->
-  <rect width="${width}" height="${height}" fill="currentColor" />
-</svg>`;
-
-    return svg;
+    return imageRefs;
   }
 
-  private detectImageFormat(buffer: Buffer): 'png' | 'jpg' | 'svg' {
+  private detectImageFormat(buffer: Buffer): Asset['format'] {
     // Check magic numbers to detect format
     if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
       return 'png';
@@ -150,6 +238,23 @@ export class AssetManager {
     if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
       return 'jpg';
     }
+
+    if (buffer.subarray(0, 4).toString('latin1') === 'GIF8') {
+      return 'gif';
+    }
+
+    if (buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') {
+      return 'webp';
+    }
+
+    if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+      return 'pdf';
+    }
+
+    const head = buffer.subarray(0, 256).toString('utf8').trimStart();
+    if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+      return 'svg';
+    }
     
     // Default to PNG
     return 'png';
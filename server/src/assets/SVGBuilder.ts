@@ -0,0 +1,229 @@
+import type { Fill, Stroke, VectorPath } from '../types/figma.js';
+import type { ParsedNode } from '../types/internal.js';
+import { rgbaToCSS } from '../utils/helpers.js';
+
+// Nodes that only exist as outlines
+const VECTOR_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'REGULAR_POLYGON']);
+// Plain shapes that may sit inside an icon
+const SHAPE_TYPES = new Set(['RECTANGLE', 'ELLIPSE']);
+const CONTAINER_TYPES = new Set(['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE']);
+// Larger vector-only containers are layouts unless named as artwork
+const ICON_MAX_SIZE = 128;
+const ARTWORK_NAME = /icon|logo|illustration|glyph/i;
+
+export interface SVGGraphic {
+  width: number;
+  height: number;
+  // Everything inside the <svg> element
+  body: string;
+}
+
+/**
+ * Builds SVG markup from the fillGeometry/strokeGeometry paths Figma
+ * returns with geometry=paths. A vector node becomes one graphic; so does
+ * a frame or group made only of vectors and plain shapes (an icon), with
+ * each piece placed relative to the container.
+ */
+export class SVGBuilder {
+  isGraphic(node: ParsedNode): boolean {
+    // A straight horizontal or vertical line is an <hr>; only diagonals need a path
+    if (node.type === 'LINE') {
+      return Math.min(node.bounds.width, node.bounds.height) > 1;
+    }
+    // Arcs and donuts can't be drawn with border-radius
+    if (VECTOR_TYPES.has(node.type) || (node.type === 'ELLIPSE' && node.arc)) {
+      return true;
+    }
+    if (!CONTAINER_TYPES.has(node.type) || node.children.length === 0) {
+      return false;
+    }
+
+    const small = node.bounds.width <= ICON_MAX_SIZE && node.bounds.height <= ICON_MAX_SIZE;
+    return (small || ARTWORK_NAME.test(node.name)) && this.isIconContent(node) && this.hasVector(node);
+  }
+
+  // Top-most graphics; nothing inside a graphic is returned separately
+  collectGraphics(nodes: ParsedNode[]): ParsedNode[] {
+    const graphics: ParsedNode[] = [];
+
+    const traverse = (node: ParsedNode) => {
+      if (this.isGraphic(node)) {
+        graphics.push(node);
+        return;
+      }
+      node.children.forEach(traverse);
+    };
+
+    nodes.forEach(traverse);
+    return graphics;
+  }
+
+  build(node: ParsedNode): SVGGraphic | null {
+    const defs: string[] = [];
+    const idPrefix = `svg-${node.id.replace(/[^a-zA-Z0-9]+/g, '-')}`;
+    const shapes = this.renderNode(node, null, defs, idPrefix);
+
+    if (shapes.length === 0) {
+      return null;
+    }
+
+    const body = [
+      ...(defs.length > 0 ? [`<defs>${defs.join('')}</defs>`] : []),
+      ...shapes,
+    ].join('\n');
+
+    // Paths are in the node's unrotated space; CSS applies the node's own rotation
+    const { width, height } = this.size(node);
+    return {
+      width: this.round(width),
+      height: this.round(height),
+      body,
+    };
+  }
+
+  toDocument(graphic: SVGGraphic): string {
+    const { width, height, body } = graphic;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" overflow="visible">
+${body}
+</svg>
+`;
+  }
+
+  private isIconContent(node: ParsedNode): boolean {
+    return node.children.every(child => {
+      if (child.styles.fills.some(fill => fill.type === 'IMAGE')) return false;
+      if (VECTOR_TYPES.has(child.type) || SHAPE_TYPES.has(child.type)) return true;
+      return CONTAINER_TYPES.has(child.type) && this.isIconContent(child);
+    });
+  }
+
+  private hasVector(node: ParsedNode): boolean {
+    return node.children.some(child => VECTOR_TYPES.has(child.type) || this.hasVector(child));
+  }
+
+  private renderNode(node: ParsedNode, parent: ParsedNode | null, defs: string[], idPrefix: string): string[] {
+    const shapes: string[] = [];
+    const { width, height } = this.size(node);
+
+    if (node.geometry) {
+      // Fills are listed bottom to top, like SVG paint order
+      for (const fill of node.styles.fills) {
+        const paint = this.paint(fill, defs, idPrefix);
+        if (!paint) continue;
+        for (const path of node.geometry.fill) {
+          shapes.push(this.pathElement(path, paint));
+        }
+      }
+      // strokeGeometry is the outline of the stroke, so it is filled too
+      for (const stroke of node.styles.strokes) {
+        const paint = this.paint(stroke, defs, idPrefix);
+        if (!paint) continue;
+        for (const path of node.geometry.stroke) {
+          shapes.push(this.pathElement(path, paint));
+        }
+      }
+    } else if (!VECTOR_TYPES.has(node.type)) {
+      // Containers and shapes without path data still have a box
+      const radius = typeof node.styles.cornerRadius === 'number' ? node.styles.cornerRadius : 0;
+      for (const fill of node.styles.fills) {
+        const paint = this.paint(fill, defs, idPrefix);
+        if (!paint) continue;
+        shapes.push(node.type === 'ELLIPSE'
+          ? `<ellipse cx="${this.round(width / 2)}" cy="${this.round(height / 2)}" rx="${this.round(width / 2)}" ry="${this.round(height / 2)}" fill="${paint}"/>`
+          : `<rect width="${this.round(width)}" height="${this.round(height)}"${radius ? ` rx="${radius}"` : ''} fill="${paint}"/>`);
+      }
+    }
+
+    const content = [...shapes, ...node.children.flatMap(child => this.renderNode(child, node, defs, idPrefix))];
+
+    // The graphic's own box is the SVG viewport; its placement is up to CSS
+    if (!parent) {
+      return content;
+    }
+    return this.group(content, node, parent);
+  }
+
+  // Places a node in its parent's space; opacity covers everything it holds
+  private group(content: string[], node: ParsedNode, parent: ParsedNode): string[] {
+    if (content.length === 0) {
+      return [];
+    }
+
+    const { x, y } = this.offset(node, parent);
+    const { width, height } = this.size(node);
+    const transforms: string[] = [];
+    if (x !== 0 || y !== 0) transforms.push(`translate(${x} ${y})`);
+    if (node.layout.rotation) transforms.push(`rotate(${node.layout.rotation} ${this.round(width / 2)} ${this.round(height / 2)})`);
+
+    const attributes: string[] = [];
+    if (transforms.length > 0) attributes.push(`transform="${transforms.join(' ')}"`);
+    if (node.styles.opacity < 1) attributes.push(`opacity="${node.styles.opacity}"`);
+
+    return attributes.length > 0 ? [`<g ${attributes.join(' ')}>`, ...content, '</g>'] : content;
+  }
+
+  private offset(node: ParsedNode, parent: ParsedNode): { x: number; y: number } {
+    // Layout positions account for rotated parents; bounds are the fallback
+    const position = node.layout.position && parent.layout.position
+      ? { x: node.layout.position.x - parent.layout.position.x, y: node.layout.position.y - parent.layout.position.y }
+      : { x: node.bounds.x - parent.bounds.x, y: node.bounds.y - parent.bounds.y };
+    return { x: this.round(position.x), y: this.round(position.y) };
+  }
+
+  private size(node: ParsedNode): { width: number; height: number } {
+    return {
+      width: node.layout.width ?? node.bounds.width,
+      height: node.layout.height ?? node.bounds.height,
+    };
+  }
+
+  private pathElement(path: VectorPath, paint: string): string {
+    const rule = path.windingRule === 'EVENODD' ? ' fill-rule="evenodd" clip-rule="evenodd"' : '';
+    return `<path d="${this.escapeAttribute(path.path)}"${rule} fill="${paint}"/>`;
+  }
+
+  // Path data comes straight from the API; keep it from breaking out of the attribute
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  }
+
+  private paint(paint: Fill | Stroke, defs: string[], idPrefix: string): string | null {
+    if (paint.visible === false) {
+      return null;
+    }
+
+    const fill = paint as Fill;
+    const opacity = fill.opacity ?? 1;
+
+    if (paint.type === 'SOLID' && paint.color) {
+      const { r, g, b, a } = paint.color;
+      return rgbaToCSS(r, g, b, a * opacity);
+    }
+
+    if ((paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL') && fill.gradientStops?.length) {
+      const id = `${idPrefix}-${defs.length}`;
+      const stops = fill.gradientStops
+        .map(stop => {
+          const { r, g, b, a } = stop.color;
+          return `<stop offset="${this.round(stop.position)}" stop-color="${rgbaToCSS(r, g, b, a * opacity)}"/>`;
+        })
+        .join('');
+      const [start = { x: 0, y: 0.5 }, end = { x: 1, y: 0.5 }] = fill.gradientHandlePositions || [];
+
+      if (paint.type === 'GRADIENT_LINEAR') {
+        defs.push(`<linearGradient id="${id}" x1="${this.round(start.x)}" y1="${this.round(start.y)}" x2="${this.round(end.x)}" y2="${this.round(end.y)}">${stops}</linearGradient>`);
+      } else {
+        const radius = Math.hypot(end.x - start.x, end.y - start.y);
+        defs.push(`<radialGradient id="${id}" cx="${this.round(start.x)}" cy="${this.round(start.y)}" r="${this.round(radius)}">${stops}</radialGradient>`);
+      }
+      return `url(#${id})`;
+    }
+
+    // Angular/diamond gradients and images have no SVG paint equivalent
+    return null;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
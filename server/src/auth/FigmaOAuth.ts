@@ -0,0 +1,117 @@
+import axios from 'axios';
+import { logger } from '../utils/logger.js';
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scope: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  userId?: string;
+}
+
+export class FigmaOAuthError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public originalError?: any
+  ) {
+    super(message);
+    this.name = 'FigmaOAuthError';
+  }
+}
+
+/**
+ * Authorization-code flow against Figma's OAuth2 endpoints. Tokens are
+ * exchanged and refreshed server-side so the client secret never reaches
+ * the browser.
+ */
+export class FigmaOAuth {
+  constructor(private config: OAuthConfig) {}
+
+  // Enabled only when FIGMA_OAUTH_CLIENT_ID, _CLIENT_SECRET and _REDIRECT_URI are set
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): FigmaOAuth | null {
+    const { FIGMA_OAUTH_CLIENT_ID, FIGMA_OAUTH_CLIENT_SECRET, FIGMA_OAUTH_REDIRECT_URI } = env;
+    if (!FIGMA_OAUTH_CLIENT_ID || !FIGMA_OAUTH_CLIENT_SECRET || !FIGMA_OAUTH_REDIRECT_URI) {
+      return null;
+    }
+
+    return new FigmaOAuth({
+      clientId: FIGMA_OAUTH_CLIENT_ID,
+      clientSecret: FIGMA_OAUTH_CLIENT_SECRET,
+      redirectUri: FIGMA_OAUTH_REDIRECT_URI,
+      scope: env.FIGMA_OAUTH_SCOPE || 'file_read',
+    });
+  }
+
+  getAuthorizeUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scope,
+      state,
+      response_type: 'code',
+    });
+    return `https://www.figma.com/oauth?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<OAuthTokens> {
+    logger.info('Exchanging Figma OAuth authorization code');
+
+    const data = await this.post('https://api.figma.com/v1/oauth/token', {
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      redirect_uri: this.config.redirectUri,
+      code,
+      grant_type: 'authorization_code',
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: Date.now() + (data.expires_in || 0) * 1000,
+      userId: data.user_id !== undefined ? String(data.user_id) : undefined,
+    };
+  }
+
+  async refresh(tokens: OAuthTokens): Promise<OAuthTokens> {
+    logger.info('Refreshing Figma OAuth access token');
+
+    const data = await this.post('https://api.figma.com/v1/oauth/refresh', {
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      refresh_token: tokens.refreshToken,
+    });
+
+    return {
+      ...tokens,
+      accessToken: data.access_token,
+      // Figma keeps the original refresh token unless it issues a new one
+      refreshToken: data.refresh_token || tokens.refreshToken,
+      expiresAt: Date.now() + (data.expires_in || 0) * 1000,
+    };
+  }
+
+  private async post(url: string, body: Record<string, string>): Promise<any> {
+    try {
+      const response = await axios.post(url, new URLSearchParams(body).toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 30000,
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const statusCode = error.response?.status;
+        const detail = (error.response?.data as any)?.message || error.message;
+        logger.error('Figma OAuth request failed', { statusCode, error: detail });
+        throw new FigmaOAuthError(`Figma sign-in failed: ${detail}`, statusCode, error);
+      }
+      throw new FigmaOAuthError('An unexpected error occurred during Figma sign-in', undefined, error);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { randomBytes } from 'crypto';
+import type { OAuthTokens } from './FigmaOAuth.js';
+
+export interface Session {
+  id: string;
+  tokens: OAuthTokens;
+  createdAt: number;
+  lastUsed: number;
+}
+
+// Sessions unused for this long are dropped
+const SESSION_IDLE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory server-side session storage. The browser only ever holds the
+ * opaque session ID; OAuth tokens stay on the server.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+
+  create(tokens: OAuthTokens): Session {
+    const now = Date.now();
+    const session: Session = {
+      id: randomBytes(32).toString('hex'),
+      tokens,
+      createdAt: now,
+      lastUsed: now,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id: string | undefined): Session | undefined {
+    if (!id) {
+      return undefined;
+    }
+
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastUsed = Date.now();
+    }
+    return session;
+  }
+
+  updateTokens(id: string, tokens: OAuthTokens): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.tokens = tokens;
+    }
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  cleanup(): number {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    let removed = 0;
+    for (const [id, session] of this.sessions.entries()) {
+      if (session.lastUsed < cutoff) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export const sessionStore = new SessionStore();
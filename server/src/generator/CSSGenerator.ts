@@ -1,4 +1,4 @@
-import type { TransformedNode, CSSProperties, CSSRule } from '../types/internal.js';
+import type { TransformedNode, HTMLElement, CSSProperties, CSSRule, DesignTokens } from '../types/internal.js';
 import { sanitizeClassName } from '../utils/helpers.js';
 
 export class CSSGenerator {
@@ -6,7 +6,10 @@ export class CSSGenerator {
   private styleCache = new Map<string, string>();
   private classMap = new Map<string, string>();
 
-  generate(transformedNodes: TransformedNode[]): { css: string; classMap: Map<string, string> } {
+  generate(
+    transformedNodes: TransformedNode[],
+    tokens?: DesignTokens
+  ): { css: string; classMap: Map<string, string> } {
     this.classCounter = 0;
     this.styleCache.clear();
     this.classMap.clear();
@@ -19,7 +22,7 @@ export class CSSGenerator {
     const rules = this.extractCommonStyles(allNodes);
 
     // Generate CSS string
-    const css = this.formatCSS(rules);
+    const css = this.formatCSS(rules, tokens);
 
     return { css, classMap: this.classMap };
   }
@@ -27,12 +30,24 @@ export class CSSGenerator {
   private collectNodes(nodes: TransformedNode[], result: TransformedNode[]): void {
     for (const node of nodes) {
       result.push(node);
+      this.collectInline(node.element, result);
       if (node.children.length > 0) {
         this.collectNodes(node.children, result);
       }
     }
   }
 
+  // Styled text runs get classes like any other element
+  private collectInline(element: HTMLElement, result: TransformedNode[]): void {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.styles) {
+        result.push({ element: child, styles: child.styles, children: [] });
+      }
+      this.collectInline(child, result);
+    }
+  }
+
   extractCommonStyles(nodes: TransformedNode[]): CSSRule[] {
     const rules: CSSRule[] = [];
     const styleGroups = new Map<string, TransformedNode[]>();
@@ -91,7 +106,7 @@ export class CSSGenerator {
     return className;
   }
 
-  private formatCSS(rules: CSSRule[]): string {
+  private formatCSS(rules: CSSRule[], tokens?: DesignTokens): string {
     // Add reset and base styles following Figma-to-HTML plugin best practices
     const reset = `/* Reset and base styles */
 *, *::before, *::after {
@@ -216,16 +231,54 @@ a {
       return `${rule.selector} {\n${declarations}\n}`;
     }).join('\n\n');
 
-    return reset + formattedRules;
+    return reset + this.formatDesignTokens(tokens) + formattedRules;
+  }
+
+  private formatDesignTokens(tokens?: DesignTokens): string {
+    if (!tokens) {
+      return '';
+    }
+
+    let css = '';
+
+    const variables = Object.entries(tokens.variables);
+    if (variables.length > 0) {
+      const declarations = variables.map(([name, value]) => `  ${name}: ${value};`).join('\n');
+      css += `/* Variables and shared styles from Figma */\n:root {\n${declarations}\n}\n\n`;
+    }
+
+    // Other variable modes, switched with <html data-theme="...">
+    for (const theme of tokens.themes) {
+      const entries = Object.entries(theme.variables);
+      if (entries.length === 0) continue;
+
+      const indent = theme.mediaQuery ? '    ' : '  ';
+      const declarations = entries.map(([name, value]) => `${indent}${name}: ${value};`).join('\n');
+      css += theme.mediaQuery
+        ? `@media ${theme.mediaQuery} {\n  ${theme.selector} {\n${declarations}\n  }\n}\n\n`
+        : `${theme.selector} {\n${declarations}\n}\n\n`;
+    }
+
+    const textStyles = Object.entries(tokens.textStyles).filter(([, styles]) => Object.keys(styles).length > 0);
+    if (textStyles.length > 0) {
+      css += '/* Text styles from Figma */\n';
+      css += textStyles
+        .map(([className, styles]) => `.${className} {\n${this.organizeDeclarations(styles)}\n}`)
+        .join('\n\n');
+      css += '\n\n';
+    }
+
+    return css;
   }
 
   private organizeDeclarations(declarations: CSSProperties): string {
     // Define property order for better readability
     const propertyOrder = [
       // Display & positioning
-      'display', 'position', 'top', 'right', 'bottom', 'left', 'zIndex',
+      'display', 'position', 'top', 'right', 'bottom', 'left', 'zIndex', 'isolation',
       // Flexbox & grid
-      'flexDirection', 'flexWrap', 'justifyContent', 'alignItems', 'alignSelf', 'gap',
+      'flexDirection', 'flexWrap', 'justifyContent', 'alignItems', 'alignContent', 'alignSelf', 'justifySelf', 'flex',
+      'gap', 'rowGap', 'columnGap',
       'gridTemplateColumns', 'gridTemplateRows', 'gridColumn', 'gridRow',
       // Box model - spacing (padding, margin, gap)
       'padding', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
@@ -280,6 +333,8 @@ a {
   }
 
   private camelToKebab(str: string): string {
-    return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+    // Vendor-prefixed properties, e.g. WebkitLineClamp → -webkit-line-clamp
+    const prefixed = str.replace(/^(Webkit|Moz|Ms)(?=[A-Z])/, '-$1');
+    return prefixed.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
   }
 }
@@ -1,28 +1,210 @@
-import type { TransformedNode, HTMLElement } from '../types/internal.js';
+import type { TransformedNode, HTMLElement, GeneratedPage } from '../types/internal.js';
 import { sanitizeClassName } from '../utils/helpers.js';
+import { logger } from '../utils/logger.js';
+
+// Elements with no content or closing tag
+const VOID_TAGS = new Set(['img', 'hr']);
+
+interface PlannedDocument {
+  fileName: string;
+  // Listed in the index
+  title: string;
+  // The document's own <title>
+  documentTitle: string;
+  roots: TransformedNode[];
+}
 
 export class HTMLGenerator {
+  // Node ID → file name of the document it is rendered in ('' for a single page)
+  private documents = new Map<string, string>();
+  // Node IDs that links point at; they get an id to land on
+  private linkTargets = new Set<string>();
+  private currentDocument = '';
+
   generate(transformedNode: TransformedNode, cssClassMap: Map<string, string>): string {
-    // Find the actual content frames (skip DOCUMENT and CANVAS nodes)
+    const roots = this.singlePageRoots(transformedNode);
+
+    // Only what is rendered can be linked to; links elsewhere are reported
+    this.indexLinks([{ fileName: '', roots }]);
+    this.currentDocument = '';
+
+    const bodyContent = roots
+      .map(root => this.generateElement(root, cssClassMap, 1))
+      .join('\n');
+    return this.wrapInDocument(bodyContent);
+  }
+
+  // The first page's frames, or the node itself when it isn't a document
+  private singlePageRoots(transformedNode: TransformedNode): TransformedNode[] {
     let contentNode = transformedNode;
     
     // Skip DOCUMENT node
     if (contentNode.element.tag === 'main' && contentNode.children.length > 0) {
       contentNode = contentNode.children[0]; // Get CANVAS
+      this.reportLeftOutPages(contentNode, transformedNode.children.slice(1));
     }
     
     // Skip CANVAS node and get actual frames
     if (contentNode.element.tag === 'section' && contentNode.children.length > 0) {
-      // Render all frame children
-      const bodyContent = contentNode.children
-        .map(child => this.generateElement(child, cssClassMap, 1))
-        .join('\n');
-      return this.wrapInDocument(bodyContent);
+      return contentNode.children;
     }
     
     // Fallback: render the node as-is
-    const bodyContent = this.generateElement(contentNode, cssClassMap, 1);
-    return this.wrapInDocument(bodyContent);
+    return [contentNode];
+  }
+
+  // Selected pages next to loose frames end up here too
+  private reportLeftOutPages(shown: TransformedNode, leftOut: TransformedNode[]): void {
+    if (leftOut.length === 0) {
+      return;
+    }
+    const names = leftOut.map(page => `"${page.element.attributes['data-name']}"`).join(', ');
+    logger.warn(`Single-page output shows only the first page, "${shown.element.attributes['data-name']}"; ${names} ${leftOut.length === 1 ? 'is' : 'are'} left out. Set pageMode to "pages" to convert every page`);
+  }
+
+  /**
+   * Emits one document per Figma page ('pages') or per top-level frame
+   * ('frames'). All documents share styles.css; the caller writes the
+   * index listing from generateIndex().
+   */
+  generatePages(
+    transformedNode: TransformedNode,
+    cssClassMap: Map<string, string>,
+    mode: 'pages' | 'frames'
+  ): GeneratedPage[] {
+    const canvases = this.getCanvases(transformedNode);
+    const usedNames = new Set<string>(['index']);
+    const documents: PlannedDocument[] = [];
+
+    // File names come first so links between frames can point at them
+    for (const canvas of canvases) {
+      const pageName = canvas.element.attributes['data-name'];
+
+      if (mode === 'pages') {
+        documents.push({
+          fileName: this.uniqueFileName(pageName, usedNames),
+          title: pageName,
+          documentTitle: pageName,
+          roots: canvas.children,
+        });
+        continue;
+      }
+
+      for (const frame of canvas.children) {
+        const frameName = frame.element.attributes['data-name'];
+        documents.push({
+          fileName: this.uniqueFileName(frameName, usedNames),
+          title: canvases.length > 1 ? `${frameName} (${pageName})` : frameName,
+          documentTitle: frameName,
+          roots: [frame],
+        });
+      }
+    }
+
+    this.indexLinks(documents);
+
+    return documents.map(document => {
+      this.currentDocument = document.fileName;
+      const bodyContent = document.roots
+        .map(root => this.generateElement(root, cssClassMap, 1))
+        .join('\n');
+      return {
+        fileName: document.fileName,
+        title: document.title,
+        html: this.wrapInDocument(bodyContent, document.documentTitle),
+      };
+    });
+  }
+
+  generateIndex(pages: GeneratedPage[], siteTitle: string): string {
+    const links = pages
+      .map(page => `      <li><a href="${this.escapeAttribute(page.fileName)}">${this.escapeHTML(page.title)}</a></li>`)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHTML(siteTitle)}</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <nav class="figma-site-index">
+    <h1>${this.escapeHTML(siteTitle)}</h1>
+    <ul>
+${links}
+    </ul>
+  </nav>
+</body>
+</html>`;
+  }
+
+  private indexLinks(documents: Array<{ fileName: string; roots: TransformedNode[] }>): void {
+    this.documents.clear();
+    this.linkTargets.clear();
+
+    const visit = (node: TransformedNode, fileName: string) => {
+      this.documents.set(node.element.attributes.id, fileName);
+      this.collectLinkTargets(node.element);
+      node.children.forEach(child => visit(child, fileName));
+    };
+    documents.forEach(document => document.roots.forEach(root => visit(root, document.fileName)));
+
+    for (const target of this.linkTargets) {
+      if (!this.documents.has(target)) {
+        logger.warn(`Text links to node ${target}, which is not part of the converted output; the link has no destination`);
+      }
+    }
+  }
+
+  private collectLinkTargets(element: HTMLElement): void {
+    if (element.attributes['data-link-node']) {
+      this.linkTargets.add(element.attributes['data-link-node']);
+    }
+    for (const child of element.children) {
+      if (typeof child !== 'string') {
+        this.collectLinkTargets(child);
+      }
+    }
+  }
+
+  // In-page fragment, or the other document plus fragment
+  private linkHref(nodeId: string): string | undefined {
+    const fileName = this.documents.get(nodeId);
+    if (fileName === undefined) {
+      return undefined;
+    }
+
+    const fragment = `#${this.anchorId(nodeId)}`;
+    return fileName === this.currentDocument ? fragment : `${fileName}${fragment}`;
+  }
+
+  private anchorId(nodeId: string): string {
+    return `node-${nodeId.replace(/[^a-zA-Z0-9]+/g, '-')}`;
+  }
+
+  private getCanvases(transformedNode: TransformedNode): TransformedNode[] {
+    if (transformedNode.element.tag === 'main') {
+      return transformedNode.children.filter(child => child.element.tag === 'section');
+    }
+    if (transformedNode.element.tag === 'section') {
+      return [transformedNode];
+    }
+    return [];
+  }
+
+  private uniqueFileName(name: string, usedNames: Set<string>): string {
+    const base = sanitizeClassName(name) || 'page';
+    let candidate = base;
+    let suffix = 2;
+
+    while (usedNames.has(candidate)) {
+      candidate = `${base}-${suffix++}`;
+    }
+
+    usedNames.add(candidate);
+    return `${candidate}.html`;
   }
 
   private generateElement(
@@ -39,17 +221,28 @@ export class HTMLGenerator {
     }
     
     // Generate opening tag
-    const className = cssClassMap.get(element.attributes.id) || sanitizeClassName(element.attributes['data-name']);
+    const className = this.classNames(element, cssClassMap);
     const attributes = this.generateAttributes(element, className);
     const openTag = `${indent}<${element.tag}${attributes}>`;
     
     // Add comment with Figma layer name
     const comment = `${indent}<!-- Figma layer: ${element.attributes['data-name']} -->`;
+
+    if (VOID_TAGS.has(element.tag)) {
+      return `${comment}\n${openTag}`;
+    }
     
     // Generate content
     let content = '';
     
-    if (element.textContent) {
+    if (element.rawContent) {
+      // Pre-built markup such as SVG paths
+      const rawLines = element.rawContent.split('\n').map(line => `${indent}  ${line}`).join('\n');
+      content = `\n${rawLines}\n${indent}`;
+    } else if (element.children.length > 0) {
+      // Styled text runs, kept on one line so no whitespace creeps in between them
+      content = this.generateInline(element.children, cssClassMap);
+    } else if (element.textContent) {
       // Text content
       content = this.escapeHTML(element.textContent);
     } else if (node.children.length > 0) {
@@ -66,6 +259,21 @@ export class HTMLGenerator {
     return `${comment}\n${openTag}${content}${closeTag}`;
   }
 
+  private generateInline(children: (HTMLElement | string)[], cssClassMap: Map<string, string>): string {
+    return children.map(child => {
+      if (typeof child === 'string') {
+        return this.escapeHTML(child);
+      }
+
+      const className = cssClassMap.get(child.attributes.id);
+      const attrs = className ? [`class="${className}"`] : [];
+      attrs.push(...this.otherAttributes(child, ['id', 'data-name']));
+
+      const openTag = attrs.length > 0 ? `<${child.tag} ${attrs.join(' ')}>` : `<${child.tag}>`;
+      return `${openTag}${this.generateInline(child.children, cssClassMap)}</${child.tag}>`;
+    }).join('');
+  }
+
   private generateInputField(
     node: TransformedNode,
     cssClassMap: Map<string, string>,
@@ -91,7 +299,7 @@ export class HTMLGenerator {
       }
     }
     
-    const className = cssClassMap.get(element.attributes.id) || sanitizeClassName(element.attributes['data-name']);
+    const className = this.classNames(element, cssClassMap);
     
     const comment = `${indent}<!-- Figma layer: ${element.attributes['data-name']} -->`;
     const input = `${indent}<input type="${inputType}" class="${className}" placeholder="${this.escapeAttribute(placeholder)}" data-figma-id="${element.attributes.id}">`;
@@ -99,6 +307,12 @@ export class HTMLGenerator {
     return `${comment}\n${input}`;
   }
 
+  private classNames(element: HTMLElement, cssClassMap: Map<string, string>): string {
+    const className = cssClassMap.get(element.attributes.id) || sanitizeClassName(element.attributes['data-name']);
+    // Shared text styles contribute a reusable typography class
+    return element.attributes.class ? `${element.attributes.class} ${className}` : className;
+  }
+
   private generateAttributes(element: HTMLElement, className: string): string {
     const attrs: string[] = [];
     
@@ -112,23 +326,40 @@ export class HTMLGenerator {
       attrs.push(`data-figma-id="${element.attributes.id}"`);
     }
     
+    // Landing spot for links to this node
+    if (this.linkTargets.has(element.attributes.id)) {
+      attrs.push(`id="${this.anchorId(element.attributes.id)}"`);
+    }
+    
     // Add other attributes (excluding internal ones)
+    attrs.push(...this.otherAttributes(element, ['id', 'data-name', 'class']));
+    
+    return attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+  }
+
+  // Node links become an href for the document being generated
+  private otherAttributes(element: HTMLElement, internal: string[]): string[] {
+    const attrs: string[] = [];
     for (const [key, value] of Object.entries(element.attributes)) {
-      if (key !== 'id' && key !== 'data-name' && key !== 'class') {
+      if (key === 'data-link-node') {
+        const href = this.linkHref(value);
+        if (href) {
+          attrs.push(`href="${this.escapeAttribute(href)}"`);
+        }
+      } else if (!internal.includes(key)) {
         attrs.push(`${key}="${this.escapeAttribute(value)}"`);
       }
     }
-    
-    return attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+    return attrs;
   }
 
-  private wrapInDocument(bodyContent: string): string {
+  private wrapInDocument(bodyContent: string, title: string = 'Figma Design'): string {
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Figma Design</title>
+  <title>${this.escapeHTML(title)}</title>
   <link rel="stylesheet" href="styles.css">
 </head>
 <body>
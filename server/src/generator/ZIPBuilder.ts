@@ -1,6 +1,6 @@
 import archiver from 'archiver';
 import { Readable } from 'stream';
-import type { Asset } from '../types/internal.js';
+import type { Asset, ConversionManifest, GeneratedPage } from '../types/internal.js';
 import { logger } from '../utils/logger.js';
 
 export interface ZIPContents {
@@ -8,6 +8,8 @@ export interface ZIPContents {
   css: string;
   assets: Asset[];
   readme?: string;
+  pages?: GeneratedPage[];
+  manifest?: ConversionManifest;
 }
 
 export class ZIPBuilder {
@@ -39,6 +41,11 @@ export class ZIPBuilder {
       // Add HTML file
       archive.append(contents.html, { name: 'index.html' });
 
+      // Add one document per page for multi-page output
+      for (const page of contents.pages || []) {
+        archive.append(page.html, { name: page.fileName });
+      }
+
       // Add CSS file
       archive.append(contents.css, { name: 'styles.css' });
 
@@ -47,17 +54,18 @@ export class ZIPBuilder {
         archive.append(contents.readme, { name: 'README.md' });
       }
 
+      // Add machine-readable record of the converted source
+      if (contents.manifest) {
+        archive.append(JSON.stringify(contents.manifest, null, 2), { name: 'manifest.json' });
+      }
+
       // Add assets
-      if (contents.assets.length > 0) {
-        for (const asset of contents.assets) {
-          if (asset.url) {
-            // For downloaded images, we would need the actual buffer
-            // This is a placeholder - in real implementation, pass the buffer
-            logger.warn(`Asset ${asset.id} needs to be downloaded separately`);
-          } else {
-            // For SVG or other generated assets
-            logger.debug(`Adding asset: ${asset.localPath}`);
-          }
+      for (const asset of contents.assets) {
+        if (asset.data) {
+          logger.debug(`Adding asset: ${asset.localPath}`);
+          archive.append(asset.data, { name: asset.localPath });
+        } else {
+          logger.debug(`Asset ${asset.id} has no content; skipping ${asset.localPath}`);
         }
       }
 
@@ -72,17 +80,24 @@ export class ZIPBuilder {
     logger.info(`ZIP file written to: ${outputPath}`);
   }
 
-  generateReadme(warnings: string[], errors: string[]): string {
+  generateReadme(
+    warnings: string[],
+    errors: string[],
+    pages: GeneratedPage[] = [],
+    manifest?: ConversionManifest
+  ): string {
+    const pageFiles = pages.map(page => `- \`${page.fileName}\` - ${page.title}\n`).join('');
+
     let readme = `# Figma to HTML Conversion
 
 This package contains the converted HTML and CSS from your Figma design.
 
 ## Files
 
-- \`index.html\` - The main HTML file
-- \`styles.css\` - All styles for the design
+- \`index.html\` - ${pages.length > 0 ? 'Index linking to every page' : 'The main HTML file'}
+${pageFiles}- \`styles.css\` - All styles for the design (shared by every page)
 - \`assets/\` - Images and other assets (if any)
-
+${manifest ? '- `manifest.json` - The Figma file and version this package was converted from\n' : ''}
 ## Usage
 
 Simply open \`index.html\` in your web browser to view the converted design.
@@ -98,6 +113,19 @@ Simply open \`index.html\` in your web browser to view the converted design.
 
 `;
 
+    if (manifest) {
+      readme += `## Source\n\n`;
+      readme += `- File: ${manifest.fileName} (\`${manifest.fileId}\`)\n`;
+      readme += `- Version: ${manifest.version || 'unknown'}${manifest.versionPinned ? ' (pinned)' : ' (latest at conversion time)'}\n`;
+      if (manifest.lastModified) {
+        readme += `- Last modified: ${manifest.lastModified}\n`;
+      }
+      if (manifest.nodeIds.length > 0) {
+        readme += `- Nodes: ${manifest.nodeIds.join(', ')}\n`;
+      }
+      readme += '\n';
+    }
+
     if (warnings.length > 0) {
       readme += `## Conversion Warnings\n\n`;
       readme += `The following warnings were encountered during conversion:\n\n`;
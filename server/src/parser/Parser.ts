@@ -1,21 +1,66 @@
-import type { FigmaFile, FigmaNode, NodeType } from '../types/figma.js';
-import type { ParsedNode, StyleProperties, LayoutProperties } from '../types/internal.js';
+import type { ArcData, BoundingBox, FigmaFile, FigmaNode, FigmaStyle, LayoutGrid, LayoutSizing, NodeType, VariableAlias } from '../types/figma.js';
+import type {
+  ParsedNode,
+  StyleProperties,
+  LayoutProperties,
+  StyleReferences,
+  VariableBindings,
+  BindableProperty,
+  TextRun,
+} from '../types/internal.js';
 import { LayoutStrategy } from '../types/internal.js';
+import { centersInColumn } from '../utils/centering.js';
 import { logger } from '../utils/logger.js';
 
+// Node types with a dedicated mapping; others render as a plain box with a warning
+const SUPPORTED_TYPES = new Set<string>([
+  'DOCUMENT', 'CANVAS', 'FRAME', 'GROUP', 'SECTION', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE',
+  'RECTANGLE', 'ELLIPSE', 'LINE', 'STAR', 'REGULAR_POLYGON', 'VECTOR', 'BOOLEAN_OPERATION',
+  'TEXT', 'TABLE', 'TABLE_CELL', 'STICKY', 'SHAPE_WITH_TEXT',
+]);
+// Nodes whose characters are their visible content
+const TEXT_BEARING_TYPES = new Set<string>(['TEXT', 'TABLE_CELL', 'STICKY', 'SHAPE_WITH_TEXT']);
+// Containers without their own coordinate space; children are placed relative to the group's parent
+const GROUP_TYPES = new Set<string>(['GROUP', 'BOOLEAN_OPERATION']);
+// Children laid out by their own rules rather than by position
+const FIXED_STRUCTURE_TYPES = new Set<string>(['TABLE', 'TABLE_CELL', 'BOOLEAN_OPERATION']);
+
 export class Parser {
   private warnings: string[] = [];
+  // Unsupported type → names of the layers that have it
+  private unsupported = new Map<string, string[]>();
+  // Page rotation (clockwise degrees) and unrotated size, until rotations are resolved
+  private transforms = new Map<ParsedNode, { angle: number; size?: { x: number; y: number } }>();
   private components: Record<string, any> = {};
+  private sharedStyles: Record<string, FigmaStyle> = {};
 
-  parse(figmaFile: FigmaFile, components?: Record<string, any>): ParsedNode {
+  parse(figmaFile: FigmaFile, components?: Record<string, any>, styles?: Record<string, FigmaStyle>): ParsedNode {
     logger.info('Starting to parse Figma file');
     this.warnings = [];
+    this.unsupported.clear();
+    this.transforms.clear();
     this.components = components || {};
+    // Published style metadata fills in names the document itself doesn't carry
+    this.sharedStyles = { ...(styles || {}), ...(figmaFile.styles || {}) };
 
     const rootNode = this.parseNode(figmaFile.document);
+
+    for (const [type, names] of this.unsupported) {
+      const example = names.length > 1 ? `${names.length} layers, e.g. "${names[0]}"` : `"${names[0]}"`;
+      this.warnings.push(`Unsupported Figma node type ${type} (${example}) was rendered as a plain box`);
+    }
     
+    // Figma's paint order, before regrouping and flow inference move layers around
+    this.assignStackOrder(rootNode);
+
     // Post-process to fix structural issues
     this.regroupByVisualContainment(rootNode);
+
+    // Rotations are relative to the final parent, so this runs after regrouping
+    this.resolveRotations(rootNode);
+
+    // Hand-positioned children become rows and columns, in unrotated coordinates
+    this.inferFlowLayout(rootNode);
     
     if (this.warnings.length > 0) {
       logger.warn(`Parsing completed with ${this.warnings.length} warnings`);
@@ -50,6 +95,17 @@ export class Parser {
         
         // Check if child is visually inside potentialParent
         if (this.isVisuallyContained(child, potentialParent)) {
+          // Nested, the child would paint over potentialParent and under its later siblings
+          const cover = this.paintedOver(child, potentialParent, node.children);
+          if (cover) {
+            this.warnings.push(
+              cover === potentialParent
+                ? `Layer "${child.name}" sits inside "${potentialParent.name}" but is painted below "${cover.name}"; it was not moved into "${potentialParent.name}" to keep its stacking order`
+                : `Layer "${child.name}" sits inside "${potentialParent.name}", but moving it into "${potentialParent.name}" would paint it below "${cover.name}"; it was not moved to keep its stacking order`
+            );
+            continue;
+          }
+
           // Move child into potentialParent
           potentialParent.children.push(child);
           wasRegrouped = true;
@@ -67,6 +123,38 @@ export class Parser {
     node.children = remainingChildren;
   }
 
+  // Later layers paint over earlier ones and everything inside them
+  private assignStackOrder(node: ParsedNode, order = 0): number {
+    node.layout.stackOrder = order++;
+    const children = node.layout.reverseZIndex ? [...node.children].reverse() : node.children;
+    for (const child of children) {
+      order = this.assignStackOrder(child, order);
+    }
+    return order;
+  }
+
+  /**
+   * The layer that stops child from moving into parent without changing
+   * what paints over what: parent itself when it paints over the child, or
+   * an overlapping sibling painted between the two.
+   */
+  private paintedOver(child: ParsedNode, parent: ParsedNode, siblings: ParsedNode[]): ParsedNode | undefined {
+    const childOrder = child.layout.stackOrder ?? 0;
+    const parentOrder = parent.layout.stackOrder ?? 0;
+    if (parentOrder > childOrder) {
+      return parent;
+    }
+
+    return siblings.find(sibling => {
+      const order = sibling.layout.stackOrder ?? 0;
+      return sibling !== parent && order > parentOrder && order < childOrder && this.overlaps(sibling.bounds, child.bounds);
+    });
+  }
+
+  private overlaps(a: BoundingBox, b: BoundingBox): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
   private isVisuallyContained(child: ParsedNode, parent: ParsedNode): boolean {
     // Check if child's bounds are within parent's bounds
     if (!child.bounds || !parent.bounds) return false;
@@ -112,16 +200,21 @@ export class Parser {
     return this.warnings;
   }
 
-  private parseNode(node: FigmaNode): ParsedNode {
+  private parseNode(node: FigmaNode, frameAngle = 0, parentLayoutMode?: FigmaNode['layoutMode']): ParsedNode {
     try {
+      const type = this.normalizeType(node.type);
+      if (!SUPPORTED_TYPES.has(type)) {
+        this.unsupported.set(type, [...(this.unsupported.get(type) || []), node.name]);
+      }
+
       const parsedNode: ParsedNode = {
         id: node.id,
         name: node.name,
-        type: node.type as NodeType,
+        type,
         children: [],
         bounds: node.absoluteBoundingBox || { x: 0, y: 0, width: 0, height: 0 },
         styles: this.extractStyles(node),
-        layout: this.extractLayout(node),
+        layout: this.extractLayout(node, parentLayoutMode),
       };
 
       // Check if this is a component instance
@@ -135,14 +228,37 @@ export class Parser {
         }
       }
 
-      // Extract text content for TEXT nodes
-      if (node.type === 'TEXT' && node.characters) {
+      // Keep vector outlines for SVG export
+      if (node.fillGeometry?.length || node.strokeGeometry?.length) {
+        parsedNode.geometry = {
+          fill: node.fillGeometry || [],
+          stroke: node.strokeGeometry || [],
+        };
+      }
+
+      const angle = frameAngle + this.rotationOf(node);
+      if (angle !== 0 || node.size) {
+        this.transforms.set(parsedNode, { angle, size: node.size });
+      }
+
+      if (type === 'ELLIPSE' && node.arcData && !this.isFullEllipse(node.arcData)) {
+        parsedNode.arc = node.arcData;
+      }
+
+      // Extract text content for TEXT nodes, table cells and stickies
+      if (TEXT_BEARING_TYPES.has(type) && node.characters) {
         parsedNode.textContent = node.characters;
+        const runs = this.textRuns(node);
+        if (runs) {
+          parsedNode.textRuns = runs;
+        }
       }
 
-      // Recursively parse children
+      // Recursively parse children; slices only mark export regions
       if (node.children && Array.isArray(node.children)) {
-        parsedNode.children = node.children.map(child => this.parseNode(child));
+        parsedNode.children = node.children
+          .filter(child => child.type !== 'SLICE')
+          .map(child => this.parseNode(child, GROUP_TYPES.has(type) ? frameAngle : angle, node.layoutMode));
       }
 
       return parsedNode;
@@ -164,6 +280,292 @@ export class Parser {
     }
   }
 
+  /**
+   * Rotation of a node relative to its Figma parent, as clockwise CSS
+   * degrees. relativeTransform wins over rotation because it is exact;
+   * both rotate counterclockwise in Figma's terms.
+   */
+  private rotationOf(node: FigmaNode): number {
+    let radians = 0;
+    if (node.relativeTransform) {
+      const [[a], [b]] = node.relativeTransform;
+      radians = Math.atan2(b, a);
+    } else if (node.rotation) {
+      radians = -node.rotation;
+    }
+
+    const degrees = Math.round(radians * 180 / Math.PI * 100) / 100;
+    return Object.is(degrees, -0) ? 0 : degrees;
+  }
+
+  /**
+   * absoluteBoundingBox is the axis-aligned box around a rotated node, so
+   * it overstates the size. Nodes that are rotated, or sit inside something
+   * rotated, get their unrotated size and a position in the parent's frame,
+   * and layout.rotation becomes relative to the parent element. Both boxes
+   * share a center, which is what CSS rotates about.
+   */
+  private resolveRotations(node: ParsedNode, parent?: ParsedNode): void {
+    const { angle = 0, size } = this.transforms.get(node) || {};
+    const parentAngle = parent ? this.transforms.get(parent)?.angle || 0 : 0;
+    const layout = node.layout;
+
+    if ((angle !== 0 || parentAngle !== 0) && layout.position) {
+      const { width, height } = size ? { width: size.x, height: size.y } : this.unrotatedSize(node.bounds, angle);
+      const center = this.center(node.bounds);
+
+      // Express the center in the parent's unrotated frame
+      if (parent?.layout.position && parent.layout.width !== undefined && parent.layout.height !== undefined) {
+        const parentCenter = this.center(parent.bounds);
+        const radians = parentAngle * Math.PI / 180;
+        const dx = center.x - parentCenter.x;
+        const dy = center.y - parentCenter.y;
+        center.x = parent.layout.position.x + parent.layout.width / 2 + dx * Math.cos(radians) + dy * Math.sin(radians);
+        center.y = parent.layout.position.y + parent.layout.height / 2 - dx * Math.sin(radians) + dy * Math.cos(radians);
+      }
+
+      layout.width = width;
+      layout.height = height;
+      layout.position = { x: center.x - width / 2, y: center.y - height / 2 };
+
+      const rotation = Math.round((angle - parentAngle) * 100) / 100;
+      if (rotation !== 0) {
+        layout.rotation = rotation;
+      }
+    }
+
+    node.children.forEach(child => this.resolveRotations(child, node));
+  }
+
+  /**
+   * Replaces hand-placed children with nested flex rows and columns. An
+   * XY-cut splits the children along the empty bands between them, into
+   * rows or failing that columns, and recurses into every band holding
+   * several children. Only layers that overlap either way stay absolute.
+   */
+  private inferFlowLayout(node: ParsedNode): void {
+    node.children.forEach(child => this.inferFlowLayout(child));
+
+    const handPlaced = node.layout.strategy === LayoutStrategy.Absolute
+      || (node.layout.strategy === LayoutStrategy.Static && node.children.length > 0);
+    if (!handPlaced || FIXED_STRUCTURE_TYPES.has(node.type) || !node.layout.position
+      || node.children.some(child => !child.layout.position)) {
+      return;
+    }
+
+    this.layoutFlow(node, node.children);
+  }
+
+  private layoutFlow(container: ParsedNode, items: ParsedNode[]): void {
+    let direction: 'row' | 'column' = 'column';
+    let bands = this.flowBands(items, 'column');
+    if (bands.length === 1 && items.length > 1) {
+      direction = 'row';
+      bands = this.flowBands(items, 'row');
+    }
+
+    if (bands.length === 1 && items.length > 1) {
+      // Overlapping layers keep their positions inside an in-flow box
+      container.layout.strategy = LayoutStrategy.Static;
+      container.children = items;
+      items.forEach(item => {
+        item.layout.absolutePositioned = true;
+      });
+      return;
+    }
+
+    container.children = bands.map((band, index) =>
+      band.length === 1 ? band[0] : this.flowWrapper(container, band, index)
+    );
+    container.layout.strategy = LayoutStrategy.Flexbox;
+    container.layout.flexDirection = direction;
+    this.flowSpacing(container, direction);
+  }
+
+  // Items whose extents along the main axis overlap share a band; bands come out in order
+  private flowBands(items: ParsedNode[], direction: 'row' | 'column'): ParsedNode[][] {
+    const axis = direction === 'row' ? 'x' : 'y';
+    const sorted = [...items].sort((a, b) => this.extent(a, axis).start - this.extent(b, axis).start);
+
+    const bands: Array<{ members: ParsedNode[]; end: number }> = [];
+    for (const item of sorted) {
+      const { start, end } = this.extent(item, axis);
+      const band = bands[bands.length - 1];
+      if (band && start < band.end - 0.5) {
+        band.members.push(item);
+        band.end = Math.max(band.end, end);
+      } else {
+        bands.push({ members: [item], end });
+      }
+    }
+
+    // Within a band the original stacking order still matters
+    return bands.map(band => band.members.sort((a, b) => items.indexOf(a) - items.indexOf(b)));
+  }
+
+  private flowWrapper(container: ParsedNode, band: ParsedNode[], index: number): ParsedNode {
+    const xs = band.map(item => this.extent(item, 'x'));
+    const ys = band.map(item => this.extent(item, 'y'));
+    const x = Math.min(...xs.map(extent => extent.start));
+    const y = Math.min(...ys.map(extent => extent.start));
+    const width = Math.max(...xs.map(extent => extent.end)) - x;
+    const height = Math.max(...ys.map(extent => extent.end)) - y;
+
+    const wrapper: ParsedNode = {
+      id: `${container.id}-flow-${index}`,
+      name: 'Group',
+      type: 'GROUP',
+      children: [],
+      bounds: { x, y, width, height },
+      styles: this.getDefaultStyles(),
+      layout: {
+        strategy: LayoutStrategy.Static,
+        position: { x, y },
+        width,
+        height,
+        stackOrder: Math.min(...band.map(item => item.layout.stackOrder ?? 0)),
+      },
+    };
+    this.layoutFlow(wrapper, band);
+
+    const direction = wrapper.layout.flexDirection;
+    wrapper.name = direction === 'row' ? 'Row' : direction === 'column' ? 'Column' : 'Stack';
+    return wrapper;
+  }
+
+  /**
+   * Padding, gap and alignment that put each child back where it was drawn.
+   * The gap is the smallest one between children; larger ones become margins,
+   * as do cross-axis offsets the alignment doesn't cover.
+   */
+  private flowSpacing(container: ParsedNode, direction: 'row' | 'column'): void {
+    const mainAxis = direction === 'row' ? 'x' : 'y';
+    const crossAxis = direction === 'row' ? 'y' : 'x';
+    const items = container.children;
+    const main = items.map(item => this.extent(item, mainAxis));
+    const cross = items.map(item => this.extent(item, crossAxis));
+    const box = { main: this.extent(container, mainAxis), cross: this.extent(container, crossAxis) };
+
+    const gaps = main.slice(1).map((extent, index) => Math.max(0, extent.start - main[index].end));
+    const gap = gaps.length > 0 ? Math.min(...gaps) : 0;
+    const crossStart = Math.min(...cross.map(extent => extent.start));
+    const crossEnd = Math.max(...cross.map(extent => extent.end));
+    const boxCenter = (box.cross.start + box.cross.end) / 2;
+
+    const aligned = (offset: (extent: { start: number; end: number }) => number) =>
+      cross.every(extent => Math.abs(offset(extent)) < 1);
+    let alignItems = 'flex-start';
+    if (!aligned(extent => extent.start - crossStart)) {
+      if (aligned(extent => (extent.start + extent.end) / 2 - boxCenter)) {
+        alignItems = 'center';
+      } else if (aligned(extent => extent.end - crossEnd)) {
+        alignItems = 'flex-end';
+      }
+    }
+
+    const before = Math.max(0, main[0].start - box.main.start);
+    const after = Math.max(0, box.main.end - main[main.length - 1].end);
+    const crossBefore = alignItems === 'center' ? 0 : Math.max(0, crossStart - box.cross.start);
+    const crossAfter = alignItems === 'center' ? 0 : Math.max(0, box.cross.end - crossEnd);
+    const padding = direction === 'row'
+      ? { top: crossBefore, right: after, bottom: crossAfter, left: before }
+      : { top: before, right: crossAfter, bottom: after, left: crossBefore };
+
+    container.layout.gap = gap;
+    container.layout.alignItems = alignItems;
+    container.layout.justifyContent = undefined;
+    container.layout.padding = Object.values(padding).some(value => value > 0) ? padding : undefined;
+
+    items.forEach((item, index) => {
+      const mainMargin = index > 0 ? gaps[index - 1] - gap : 0;
+      const crossMargin = alignItems === 'flex-start' && !centersInColumn(item, container)
+        ? cross[index].start - crossStart
+        : 0;
+      if (mainMargin <= 0.5 && crossMargin <= 0.5) {
+        return;
+      }
+
+      const margin = { top: 0, right: 0, bottom: 0, left: 0 };
+      margin[direction === 'row' ? 'left' : 'top'] = mainMargin > 0.5 ? mainMargin : 0;
+      margin[direction === 'row' ? 'top' : 'left'] = crossMargin > 0.5 ? crossMargin : 0;
+      item.layout.margin = margin;
+    });
+  }
+
+  // Start and end along one axis, in the parent's unrotated frame
+  private extent(node: ParsedNode, axis: 'x' | 'y'): { start: number; end: number } {
+    const start = node.layout.position![axis];
+    const size = (axis === 'x' ? node.layout.width : node.layout.height) || 0;
+    return { start, end: start + size };
+  }
+
+  private center(bounds: BoundingBox): { x: number; y: number } {
+    return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  }
+
+  // Inverts the bounding box of a rotated rectangle when Figma sent no size
+  private unrotatedSize(bounds: BoundingBox, angle: number): { width: number; height: number } {
+    const cos = Math.abs(Math.cos(angle * Math.PI / 180));
+    const sin = Math.abs(Math.sin(angle * Math.PI / 180));
+    const determinant = cos * cos - sin * sin;
+
+    // Near 45° every width/height split gives the same box; assume a square
+    if (Math.abs(determinant) < 0.1) {
+      const side = bounds.width / (cos + sin);
+      return { width: side, height: side };
+    }
+
+    return {
+      width: Math.max(0, (bounds.width * cos - bounds.height * sin) / determinant),
+      height: Math.max(0, (bounds.height * cos - bounds.width * sin) / determinant),
+    };
+  }
+
+  /**
+   * Splits text into runs of characters that share a style override.
+   * Undefined when every character is in the node's own style.
+   */
+  private textRuns(node: FigmaNode): TextRun[] | undefined {
+    const characters = node.characters || '';
+    const overrides = node.characterStyleOverrides || [];
+    const table = node.styleOverrideTable || {};
+    // Characters past the end of the overrides use the node's style
+    const overrideAt = (index: number) => {
+      const id = overrides[index] || 0;
+      return id !== 0 && table[id] ? id : 0;
+    };
+
+    if (!overrides.some((_, index) => overrideAt(index) !== 0)) {
+      return undefined;
+    }
+
+    const runs: TextRun[] = [];
+    let start = 0;
+    for (let index = 1; index <= characters.length; index++) {
+      if (index < characters.length && overrideAt(index) === overrideAt(start)) {
+        continue;
+      }
+      const run: TextRun = { characters: characters.slice(start, index) };
+      const id = overrideAt(start);
+      if (id) {
+        run.override = table[id];
+      }
+      runs.push(run);
+      start = index;
+    }
+
+    return runs;
+  }
+
+  private normalizeType(type: string): NodeType {
+    return (type === 'POLYGON' ? 'REGULAR_POLYGON' : type) as NodeType;
+  }
+
+  private isFullEllipse(arc: ArcData): boolean {
+    const sweep = Math.abs(arc.endingAngle - arc.startingAngle);
+    return arc.innerRadius === 0 && sweep >= 2 * Math.PI - 0.001;
+  }
+
   private detectComponentType(name: string): string | undefined {
     const lowerName = name.toLowerCase();
     
@@ -189,16 +591,102 @@ export class Parser {
   private extractStyles(node: FigmaNode): StyleProperties {
     return {
       fills: node.fills?.filter(f => f.visible !== false) || [],
-      strokes: node.strokes?.filter(s => s.visible !== false) || [],
+      strokes: node.strokes
+        ?.filter(s => s.visible !== false)
+        .map(s => ({ ...s, weight: s.weight ?? node.strokeWeight, align: s.align ?? node.strokeAlign })) || [],
       effects: node.effects?.filter(e => e.visible !== false) || [],
       opacity: node.opacity ?? 1,
       blendMode: node.blendMode || 'NORMAL',
       cornerRadius: node.cornerRadius,
       textStyle: node.style,
+      styleRefs: this.resolveStyleReferences(node),
+      boundVariables: this.resolveVariableBindings(node),
     };
   }
 
-  private extractLayout(node: FigmaNode): LayoutProperties {
+  private resolveVariableBindings(node: FigmaNode): VariableBindings | undefined {
+    const bindings: VariableBindings = {};
+    const bound = node.boundVariables || {};
+
+    // Paint bindings live on the paint itself
+    const fill = node.fills?.find(f => f.visible !== false);
+    const stroke = node.strokes?.find(s => s.visible !== false);
+    const sources: Array<[BindableProperty, VariableAlias | VariableAlias[] | undefined]> = [
+      ['fill', fill?.boundVariables?.color],
+      ['stroke', stroke?.boundVariables?.color],
+      ['paddingTop', bound.paddingTop],
+      ['paddingRight', bound.paddingRight],
+      ['paddingBottom', bound.paddingBottom],
+      ['paddingLeft', bound.paddingLeft],
+      ['itemSpacing', bound.itemSpacing],
+      ['opacity', bound.opacity],
+      ['fontFamily', bound.fontFamily],
+      ['fontSize', bound.fontSize],
+      ['fontWeight', bound.fontWeight],
+      ['lineHeight', bound.lineHeight],
+      ['letterSpacing', bound.letterSpacing],
+    ];
+
+    for (const [property, alias] of sources) {
+      const variableId = this.aliasId(alias);
+      if (variableId) {
+        bindings[property] = variableId;
+      }
+    }
+
+    // CSS can only reference one variable for a uniform radius
+    const corners = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius']
+      .map(key => this.aliasId(bound[key]));
+    const cornerRadius = this.aliasId(bound.cornerRadius)
+      ?? (corners.every(id => id && id === corners[0]) ? corners[0] : undefined);
+    if (cornerRadius) {
+      bindings.cornerRadius = cornerRadius;
+    }
+
+    return Object.keys(bindings).length > 0 ? bindings : undefined;
+  }
+
+  private aliasId(alias: VariableAlias | VariableAlias[] | undefined): string | undefined {
+    if (!alias) {
+      return undefined;
+    }
+    if (!Array.isArray(alias)) {
+      return alias.id;
+    }
+    // Text ranges can bind different variables; only a single shared one maps to CSS
+    const ids = new Set(alias.map(a => a.id));
+    return ids.size === 1 ? alias[0].id : undefined;
+  }
+
+  private resolveStyleReferences(node: FigmaNode): StyleReferences | undefined {
+    if (!node.styles) {
+      return undefined;
+    }
+
+    const refs: StyleReferences = {};
+    const slots: Array<[keyof StyleReferences, string | undefined]> = [
+      ['fill', node.styles.fill ?? node.styles.fills],
+      ['stroke', node.styles.stroke ?? node.styles.strokes],
+      ['text', node.styles.text],
+      ['effect', node.styles.effect],
+    ];
+
+    for (const [slot, styleId] of slots) {
+      if (!styleId) continue;
+
+      const style = this.sharedStyles[styleId];
+      if (!style) {
+        logger.debug(`Style ${styleId} on "${node.name}" has no metadata; using literal values`);
+        continue;
+      }
+
+      refs[slot] = { id: styleId, name: style.name, styleType: style.styleType };
+    }
+
+    return Object.keys(refs).length > 0 ? refs : undefined;
+  }
+
+  private extractLayout(node: FigmaNode, parentLayoutMode?: FigmaNode['layoutMode']): LayoutProperties {
     const layout: LayoutProperties = {
       strategy: this.determineLayoutStrategy(node),
     };
@@ -235,6 +723,20 @@ export class Parser {
       if (node.counterAxisAlignItems) {
         layout.alignItems = this.mapCounterAxisAlignment(node.counterAxisAlignItems);
       }
+
+      if (node.layoutWrap === 'WRAP') {
+        layout.flexWrap = true;
+        layout.counterAxisGap = node.counterAxisSpacing || 0;
+        // AUTO packs the lines the way the items are aligned
+        layout.alignContent = node.counterAxisAlignContent === 'SPACE_BETWEEN'
+          ? 'space-between'
+          : layout.alignItems || 'flex-start';
+      }
+
+      if (node.itemReverseZIndex) {
+        layout.reverseZIndex = true;
+      }
+      layout.strokesIncludedInLayout = Boolean(node.strokesIncludedInLayout);
     } else if (layout.strategy === LayoutStrategy.Flexbox && node.children && node.children.length > 1) {
       // For detected flexbox layouts (without explicit auto-layout)
       const arrangement = this.detectChildArrangement(node.children);
@@ -267,6 +769,26 @@ export class Parser {
       }
     }
 
+    if (layout.strategy === LayoutStrategy.Grid) {
+      layout.columnGrid = this.columnGrid(node);
+    }
+
+    if (node.layoutPositioning === 'ABSOLUTE') {
+      layout.absolutePositioned = true;
+    }
+
+    const sizing = this.layoutSizing(node, parentLayoutMode);
+    if (sizing.horizontal !== 'FIXED' || sizing.vertical !== 'FIXED') {
+      layout.sizing = sizing;
+    }
+
+    for (const property of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+      const value = node[property];
+      if (typeof value === 'number') {
+        layout[property] = value;
+      }
+    }
+
     // Extract constraints
     if (node.constraints) {
       layout.constraints = {
@@ -278,6 +800,47 @@ export class Parser {
     return layout;
   }
 
+  /**
+   * Fill/Hug/Fixed for each axis. Files saved before layoutSizing* existed
+   * only carry layoutGrow (fill along the parent's direction), layoutAlign
+   * (fill across it) and the frame's own primary/counter axis sizing (hug).
+   */
+  private layoutSizing(
+    node: FigmaNode,
+    parentLayoutMode?: FigmaNode['layoutMode']
+  ): { horizontal: LayoutSizing; vertical: LayoutSizing } {
+    const inFlow = (parentLayoutMode === 'HORIZONTAL' || parentLayoutMode === 'VERTICAL')
+      && node.layoutPositioning !== 'ABSOLUTE';
+
+    const legacy = (axis: 'HORIZONTAL' | 'VERTICAL'): LayoutSizing => {
+      if (inFlow && (parentLayoutMode === axis ? node.layoutGrow === 1 : node.layoutAlign === 'STRETCH')) {
+        return 'FILL';
+      }
+      if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+        const axisSizing = node.layoutMode === axis ? node.primaryAxisSizing : node.counterAxisSizing;
+        if (axisSizing === 'AUTO') {
+          return 'HUG';
+        }
+      }
+      const resize = node.style?.textAutoResize;
+      if (resize === 'WIDTH_AND_HEIGHT' || (resize === 'HEIGHT' && axis === 'VERTICAL')) {
+        return 'HUG';
+      }
+      return 'FIXED';
+    };
+
+    const sizing = {
+      horizontal: node.layoutSizingHorizontal || legacy('HORIZONTAL'),
+      vertical: node.layoutSizingVertical || legacy('VERTICAL'),
+    };
+    // Figma only allows FILL inside an auto-layout flow
+    if (!inFlow) {
+      if (sizing.horizontal === 'FILL') sizing.horizontal = 'FIXED';
+      if (sizing.vertical === 'FILL') sizing.vertical = 'FIXED';
+    }
+    return sizing;
+  }
+
   private detectAlignment(parent: FigmaNode, children: FigmaNode[], arrangement: string): { justifyContent?: string; alignItems?: string } {
     if (!parent.absoluteBoundingBox || children.length === 0) {
       return {};
@@ -481,6 +1044,11 @@ export class Parser {
       return LayoutStrategy.Flexbox;
     }
 
+    // Frames laid out on a column grid become CSS grids
+    if (node.children && node.children.length > 0 && this.columnGrid(node)) {
+      return LayoutStrategy.Grid;
+    }
+
     // For nodes without explicit auto-layout, check if children are clearly arranged
     if (node.children && node.children.length > 0 && node.absoluteBoundingBox) {
       const arrangement = this.detectChildArrangement(node.children);
@@ -498,6 +1066,13 @@ export class Parser {
     return LayoutStrategy.Static;
   }
 
+  // Hidden grids still describe how the frame was laid out
+  private columnGrid(node: FigmaNode): LayoutGrid | undefined {
+    return node.layoutGrids?.find(grid =>
+      grid.pattern === 'COLUMNS' && Number.isFinite(grid.count) && grid.count! > 0
+    );
+  }
+
   private detectChildArrangement(children: FigmaNode[]): 'vertical' | 'horizontal' | 'complex' {
     const childrenWithBounds = children.filter(c => c.absoluteBoundingBox);
     
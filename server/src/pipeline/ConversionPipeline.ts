@@ -0,0 +1,126 @@
+import type { FigmaFile, FigmaStyle, FigmaLocalVariables } from '../types/figma.js';
+import type { ConversionOptions, ConversionManifest, GeneratedPage, RenderedImages, StyleDefinition } from '../types/internal.js';
+import { Parser } from '../parser/Parser.js';
+import { Transformer } from '../transformer/Transformer.js';
+import { VariableResolver } from '../transformer/VariableResolver.js';
+import { HTMLGenerator } from '../generator/HTMLGenerator.js';
+import { CSSGenerator } from '../generator/CSSGenerator.js';
+import { AssetManager } from '../assets/AssetManager.js';
+import { ZIPBuilder } from '../generator/ZIPBuilder.js';
+import { logger } from '../utils/logger.js';
+
+export interface ConversionSource {
+  fileId: string;
+  figmaFile: FigmaFile;
+  components?: Record<string, any>;
+  // Published style metadata, keyed by style node ID
+  styles?: Record<string, FigmaStyle>;
+  // Values of those styles, keyed the same way
+  styleDefinitions?: Record<string, StyleDefinition>;
+  variables?: FigmaLocalVariables | null;
+  // Image fill URLs keyed by imageRef
+  imageUrls?: Record<string, string>;
+  // Renders of nodes marked for export
+  renders?: RenderedImages;
+}
+
+export interface ConversionOutput {
+  zip: Buffer;
+  warnings: string[];
+}
+
+/**
+ * Runs an already-fetched Figma document through parse, transform and
+ * generate. Nothing in here talks to the Figma API, so the same pipeline
+ * serves both live conversions and uploaded document JSON.
+ */
+export class ConversionPipeline {
+  async run(source: ConversionSource, options: ConversionOptions = {}): Promise<ConversionOutput> {
+    const parser = new Parser();
+    const htmlGenerator = new HTMLGenerator();
+    const cssGenerator = new CSSGenerator();
+    const assetManager = new AssetManager();
+    const zipBuilder = new ZIPBuilder();
+
+    // Parse the file with component context
+    const parsedNode = parser.parse(source.figmaFile, source.components, source.styles);
+
+    // Export assets first so styles and markup can point at their real files
+    const svgMode = options.svgMode || 'inline';
+    await assetManager.exportImages(source.fileId, [parsedNode], source.imageUrls || {});
+    assetManager.exportVectors([parsedNode], svgMode);
+    if (source.renders) {
+      await assetManager.exportRenders([parsedNode], source.renders);
+    }
+    const assets = assetManager.getAssets();
+
+    // Transform to HTML/CSS structure
+    const transformer = new Transformer({
+      variables: source.variables ? new VariableResolver(source.variables) : null,
+      imagePaths: assetManager.getImagePaths(),
+      vectors: assetManager.getVectors(),
+      svgMode,
+      rasters: assetManager.getRasters(),
+      linkRewrites: options.linkRewrites,
+      styleDefinitions: source.styleDefinitions,
+    });
+    const transformedNode = transformer.transform(parsedNode);
+
+    // Generate CSS, with shared styles as custom properties and text classes
+    const { css, classMap } = cssGenerator.generate([transformedNode], transformer.getDesignTokens());
+
+    // Generate HTML - a single stacked page, or a small site with an index
+    const pageMode = options.pageMode || 'single';
+    let html: string;
+    let pages: GeneratedPage[] = [];
+
+    if (pageMode !== 'single') {
+      pages = htmlGenerator.generatePages(transformedNode, classMap, pageMode);
+    }
+
+    if (pages.length > 0) {
+      html = htmlGenerator.generateIndex(pages, source.figmaFile.name || 'Figma Design');
+    } else {
+      if (pageMode !== 'single') {
+        logger.warn(`No ${pageMode} found to split into separate documents; falling back to a single page`);
+      }
+      html = htmlGenerator.generate(transformedNode, classMap);
+    }
+
+    // Get warnings and errors
+    const summary = logger.getSummary();
+    const allWarnings = [
+      ...parser.getWarnings(),
+      ...transformer.getWarnings(),
+      ...summary.warnings,
+    ];
+
+    // Record exactly which document state was converted
+    const manifest: ConversionManifest = {
+      fileId: source.fileId,
+      fileName: source.figmaFile.name,
+      version: source.figmaFile.version || options.version || '',
+      versionPinned: Boolean(options.version),
+      lastModified: source.figmaFile.lastModified,
+      nodeIds: options.nodeIds || [],
+      pageMode,
+      pages: pages.map(page => page.fileName),
+      convertedAt: new Date().toISOString(),
+    };
+
+    // Generate README
+    const readme = zipBuilder.generateReadme(allWarnings, summary.errors, pages, manifest);
+
+    // Create ZIP
+    const zip = await zipBuilder.createZIP({
+      html,
+      css,
+      assets,
+      readme,
+      pages,
+      manifest,
+    });
+
+    return { zip, warnings: allWarnings };
+  }
+}
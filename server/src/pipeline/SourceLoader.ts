@@ -0,0 +1,69 @@
+import type { FigmaAPIClient } from '../api/FigmaAPIClient.js';
+import type { ConversionOptions, RasterOptions, RenderedImages } from '../types/internal.js';
+import type { ConversionSource } from './ConversionPipeline.js';
+import { collectExportNodeIds } from '../utils/helpers.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Fetches everything a live conversion needs from the Figma API: the
+ * document (or the selected nodes), component and style metadata,
+ * variables, image fills and renders of nodes marked for export.
+ */
+export class SourceLoader {
+  constructor(private apiClient: FigmaAPIClient) {}
+
+  async load(fileId: string, options: ConversionOptions): Promise<ConversionSource> {
+    const { version } = options;
+    const nodeIds = options.nodeIds || [];
+
+    // Fetch only the selected frames when the request names any, else the whole file
+    const figmaFile = nodeIds.length > 0
+      ? await this.apiClient.getFileNodes(fileId, nodeIds, { version, geometry: 'paths' })
+      : await this.apiClient.getFile(fileId, { version, geometry: 'paths' });
+
+    // Component metadata is optional; the client reports why when it is missing
+    const components = await this.apiClient.getFileComponents(fileId);
+    logger.info(`Found ${Object.keys(components).length} components`);
+
+    // Shared style names; the file response already covers locally used styles
+    const styles = await this.apiClient.getFileStyles(fileId);
+    // Their own values, which win over what individual layers show
+    const styleDefinitions = await this.apiClient.getStyleDefinitions(fileId, styles, { version });
+
+    // Variables are optional too; without them bound values stay literal
+    const variables = await this.apiClient.getLocalVariables(fileId);
+
+    // Original bitmaps for image fills, keyed by imageRef
+    const imageUrls = await this.apiClient.getImageFills(fileId);
+
+    // Nodes marked for export in Figma are rendered at each requested scale
+    const renders = await this.fetchRenders(fileId, collectExportNodeIds(figmaFile.document), options);
+
+    return { fileId, figmaFile, components, styles, styleDefinitions, variables, imageUrls, renders };
+  }
+
+  private async fetchRenders(
+    fileId: string,
+    nodeIds: string[],
+    options: ConversionOptions
+  ): Promise<RenderedImages | undefined> {
+    if (nodeIds.length === 0) {
+      return undefined;
+    }
+
+    const raster: RasterOptions = options.raster || { format: 'png', scales: [2] };
+    // svg and pdf come out the same at every scale
+    const scales = raster.format === 'svg' || raster.format === 'pdf' ? [1] : raster.scales;
+    const renders: RenderedImages = { format: raster.format, urls: {} };
+
+    for (const scale of scales) {
+      renders.urls[scale] = await this.apiClient.getImageUrls(fileId, nodeIds, {
+        version: options.version,
+        format: raster.format,
+        scale,
+      });
+    }
+
+    return renders;
+  }
+}
@@ -1,16 +1,32 @@
 import express, { Request, Response } from 'express';
 import { FigmaAPIClient } from '../api/FigmaAPIClient.js';
-import { Parser } from '../parser/Parser.js';
-import { Transformer } from '../transformer/Transformer.js';
-import { HTMLGenerator } from '../generator/HTMLGenerator.js';
-import { CSSGenerator } from '../generator/CSSGenerator.js';
-import { AssetManager } from '../assets/AssetManager.js';
-import { ZIPBuilder } from '../generator/ZIPBuilder.js';
-import { extractFileId } from '../utils/helpers.js';
+import { resolveCredentials, resolveIdentity } from './auth.js';
+import { webhookReceiver, latestArtifactUrl } from './webhooks.js';
+import { ConversionPipeline, ConversionOutput } from '../pipeline/ConversionPipeline.js';
+import { SourceLoader } from '../pipeline/SourceLoader.js';
+import {
+  extractFileId,
+  extractNodeIds,
+  normalizeNodeIds,
+  normalizeFigmaFile,
+  findNodesById,
+  buildSelectionDocument,
+  sanitizeClassName,
+} from '../utils/helpers.js';
 import { logger } from '../utils/logger.js';
+import type {
+  ConversionOptions,
+  PageMode,
+  SVGMode,
+  RasterFormat,
+} from '../types/internal.js';
 
 const router = express.Router();
 
+const PAGE_MODES: PageMode[] = ['single', 'pages', 'frames'];
+const SVG_MODES: SVGMode[] = ['inline', 'file'];
+const RASTER_FORMATS: RasterFormat[] = ['png', 'jpg', 'svg', 'pdf'];
+
 // Store conversion results temporarily
 const conversionCache = new Map<string, { zip: Buffer; timestamp: number }>();
 
@@ -27,13 +43,120 @@ setInterval(() => {
 
 router.post('/convert', async (req: Request, res: Response) => {
   try {
-    const { figmaUrl, apiKey } = req.body;
+    const {
+      figmaUrl,
+      figmaFile: uploadedFile,
+      imageUrls: uploadedImageUrls,
+      variables: uploadedVariables,
+    } = req.body;
+
+    const pageMode: PageMode = req.body.pageMode || 'single';
+    if (!PAGE_MODES.includes(pageMode)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid pageMode: expected one of ${PAGE_MODES.join(', ')}`,
+      });
+    }
+    const svgMode: SVGMode = req.body.svgMode || 'inline';
+    if (!SVG_MODES.includes(svgMode)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid svgMode: expected one of ${SVG_MODES.join(', ')}`,
+      });
+    }
+    const rasterFormat: RasterFormat = req.body.rasterFormat || 'png';
+    if (!RASTER_FORMATS.includes(rasterFormat)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid rasterFormat: expected one of ${RASTER_FORMATS.join(', ')}`,
+      });
+    }
+    const rasterScales: number[] = Array.isArray(req.body.rasterScales) ? req.body.rasterScales.map(Number) : [1, 2];
+    if (rasterScales.length === 0 || rasterScales.some(scale => !(scale >= 0.01 && scale <= 4))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid rasterScales: expected a list of numbers between 0.01 and 4',
+      });
+    }
+    const { linkRewrites } = req.body;
+    if (linkRewrites !== undefined && !isStringMap(linkRewrites)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid linkRewrites: expected an object mapping URL prefixes to replacements',
+      });
+    }
+    const version = typeof req.body.version === 'string' && req.body.version.trim()
+      ? req.body.version.trim()
+      : undefined;
+    const options: ConversionOptions = {
+      pageMode,
+      svgMode,
+      version,
+      raster: { format: rasterFormat, scales: [...new Set(rasterScales)].sort((a, b) => a - b) },
+      linkRewrites,
+    };
+
+    // Explicit node IDs win over the ?node-id= part of the URL
+    const requestedNodeIds: string[] = Array.isArray(req.body.nodeIds)
+      ? normalizeNodeIds(req.body.nodeIds.map(String))
+      : [];
+
+    // Offline mode: convert an uploaded document without calling the Figma API
+    if (uploadedFile) {
+      const figmaFile = normalizeFigmaFile(uploadedFile);
+      if (!figmaFile) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid Figma document: expected a GET /files or /files/:key/nodes response, or a DOCUMENT node',
+        });
+      }
+
+      const fileId = sanitizeClassName(figmaFile.name) || 'upload';
+
+      logger.info(`Starting offline conversion for uploaded file: ${figmaFile.name}`);
+      logger.clearErrors();
+      logger.clearWarnings();
+
+      // Narrow the uploaded document down to the requested subtrees
+      if (requestedNodeIds.length > 0) {
+        const { found, missing } = findNodesById(figmaFile.document, requestedNodeIds);
+        if (found.length === 0) {
+          return res.status(400).json({
+            success: false,
+            error: `None of the requested nodes exist in the uploaded document: ${requestedNodeIds.join(', ')}`,
+          });
+        }
+        missing.forEach(nodeId => logger.warn(`Node ${nodeId} was not found in the uploaded document; skipping it`));
+        figmaFile.document = buildSelectionDocument(found);
+        options.nodeIds = found.map(node => node.id);
+      }
+
+      if (version && figmaFile.version && figmaFile.version !== version) {
+        logger.warn(`Uploaded document is version ${figmaFile.version}, not the requested version ${version}`);
+      }
+
+      const result = await new ConversionPipeline().run({
+        fileId,
+        figmaFile,
+        components: figmaFile.components,
+        // The "meta" object of GET /files/:key/variables/local, if the caller has it
+        variables: uploadedVariables?.variableCollections ? uploadedVariables : null,
+        imageUrls: uploadedImageUrls || {},
+      }, options);
+
+      if (req.body.watch === true) {
+        result.warnings.push('Uploaded documents cannot be watched for changes; convert from a Figma URL instead');
+      }
+
+      return sendConversionResult(res, fileId, result);
+    }
 
     // Validate input
-    if (!figmaUrl || !apiKey) {
+    const identity = await resolveIdentity(req);
+    if (!figmaUrl || !identity) {
       return res.status(400).json({
         success: false,
-        error: 'Missing required fields: figmaUrl and apiKey',
+        error: 'Missing required fields: figmaUrl and apiKey, accessToken or a Figma sign-in (or an uploaded figmaFile)',
       });
     }
 
@@ -51,79 +174,31 @@ router.post('/convert', async (req: Request, res: Response) => {
     logger.clearWarnings();
 
     // Initialize components
-    const apiClient = new FigmaAPIClient(apiKey);
-    const parser = new Parser();
-    const transformer = new Transformer();
-    const htmlGenerator = new HTMLGenerator();
-    const cssGenerator = new CSSGenerator();
-    const assetManager = new AssetManager();
-    const zipBuilder = new ZIPBuilder();
-
-    // Fetch Figma file
-    const figmaFile = await apiClient.getFile(fileId);
-
-    // Optionally fetch component and style metadata (skip if rate limited)
-    let components = {};
-    try {
-      components = await apiClient.getFileComponents(fileId);
-      logger.info(`Found ${Object.keys(components).length} components`);
-    } catch (error) {
-      logger.warn('Skipping component metadata due to rate limits');
-    }
-
-    // Parse the file with component context
-    const parsedNode = parser.parse(figmaFile, components);
-
-    // Get image URLs for nodes with images
-    const imageNodeIds: string[] = [];
-    // TODO: Collect image node IDs from parsed tree
-    const imageUrls = await apiClient.getImageUrls(fileId, imageNodeIds);
-
-    // Transform to HTML/CSS structure
-    const transformedNode = transformer.transform(parsedNode);
-
-    // Generate CSS
-    const { css, classMap } = cssGenerator.generate([transformedNode]);
+    const apiClient = new FigmaAPIClient(identity.credentials);
 
-    // Generate HTML
-    const html = htmlGenerator.generate(transformedNode, classMap);
+    // Convert only the selected frames when the request names any, else the whole file
+    options.nodeIds = requestedNodeIds.length > 0 ? requestedNodeIds : extractNodeIds(figmaUrl);
 
-    // Export assets
-    const assets = await assetManager.exportImages(fileId, [parsedNode], imageUrls);
+    const source = await new SourceLoader(apiClient).load(fileId, options);
+    const result = await new ConversionPipeline().run(source, options);
 
-    // Get warnings and errors
-    const summary = logger.getSummary();
-    const allWarnings = [
-      ...parser.getWarnings(),
-      ...transformer.getWarnings(),
-      ...summary.warnings,
-    ];
-
-    // Generate README
-    const readme = zipBuilder.generateReadme(allWarnings, summary.errors);
-
-    // Create ZIP
-    const zip = await zipBuilder.createZIP({
-      html,
-      css,
-      assets,
-      readme,
-    });
-
-    // Store result with unique ID
-    const conversionId = `${fileId}-${Date.now()}`;
-    conversionCache.set(conversionId, {
-      zip,
-      timestamp: Date.now(),
-    });
-
-    logger.info(`Conversion completed successfully: ${conversionId}`);
+    // Keep reconverting this file with the same options when Figma reports a change
+    if (req.body.watch === true) {
+      if (!webhookReceiver.enabled) {
+        result.warnings.push('Figma webhooks are not configured on this server; the file will not be reconverted automatically');
+      }
+      const watch = webhookReceiver.watch({
+        fileId,
+        owner: identity.owner,
+        credentials: identity.sessionId ? { type: 'session', sessionId: identity.sessionId } : identity.credentials,
+        options,
+        registeredAt: new Date().toISOString(),
+      });
+      webhookReceiver.storeArtifact(watch.id, result, 'convert');
+      return sendConversionResult(res, fileId, result, latestArtifactUrl(watch.id));
+    }
 
-    res.json({
-      success: true,
-      downloadUrl: `/api/download/${conversionId}`,
-      warnings: allWarnings,
-    });
+    sendConversionResult(res, fileId, result);
   } catch (error: any) {
     logger.error('Conversion failed', { error: error.message });
     
@@ -134,6 +209,29 @@ router.post('/convert', async (req: Request, res: Response) => {
   }
 });
 
+function isStringMap(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([key, replacement]) => key !== '' && typeof replacement === 'string');
+}
+
+function sendConversionResult(res: Response, fileId: string, result: ConversionOutput, latestUrl?: string) {
+  // Store result with unique ID
+  const conversionId = `${fileId}-${Date.now()}`;
+  conversionCache.set(conversionId, {
+    zip: result.zip,
+    timestamp: Date.now(),
+  });
+
+  logger.info(`Conversion completed successfully: ${conversionId}`);
+
+  res.json({
+    success: true,
+    downloadUrl: `/api/download/${conversionId}`,
+    latestUrl,
+    warnings: result.warnings,
+  });
+}
+
 router.get('/download/:id', (req: Request, res: Response) => {
   const { id } = req.params;
 
@@ -150,17 +248,127 @@ router.get('/download/:id', (req: Request, res: Response) => {
   res.send(result.zip);
 });
 
+const MISSING_CREDENTIALS = {
+  success: false,
+  error: 'Missing credentials: send an X-Figma-Token header, a bearer token or sign in with Figma',
+};
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+function positiveInteger(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+}
+
+router.get('/versions/:fileId', async (req: Request, res: Response) => {
+  try {
+    const { fileId } = req.params;
+    const credentials = await resolveCredentials(req);
+
+    if (!credentials) {
+      return res.status(400).json(MISSING_CREDENTIALS);
+    }
+
+    const apiClient = new FigmaAPIClient(credentials);
+    const versions = await apiClient.getVersions(fileId);
+
+    res.json({
+      success: true,
+      versions: versions.map(version => ({
+        id: version.id,
+        createdAt: version.created_at,
+        label: version.label,
+        description: version.description,
+        user: version.user?.handle,
+      })),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode && error.statusCode < 500 ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+router.get('/teams/:teamId/projects', async (req: Request, res: Response) => {
+  try {
+    const credentials = await resolveCredentials(req);
+    if (!credentials) {
+      return res.status(400).json(MISSING_CREDENTIALS);
+    }
+
+    const apiClient = new FigmaAPIClient(credentials);
+    const team = await apiClient.getTeamProjects(req.params.teamId);
+
+    res.json({
+      success: true,
+      team: team.name,
+      projects: team.projects.map(project => ({ id: String(project.id), name: project.name })),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode && error.statusCode < 500 ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Figma returns every file in a project at once; search and paging happen here
+router.get('/projects/:projectId/files', async (req: Request, res: Response) => {
+  try {
+    const credentials = await resolveCredentials(req);
+    if (!credentials) {
+      return res.status(400).json(MISSING_CREDENTIALS);
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+    const page = positiveInteger(req.query.page, 1);
+    const pageSize = Math.min(positiveInteger(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+    const apiClient = new FigmaAPIClient(credentials);
+    const project = await apiClient.getProjectFiles(req.params.projectId);
+
+    const matches = project.files
+      .filter(file => !query || file.name.toLowerCase().includes(query))
+      .sort((a, b) => b.last_modified.localeCompare(a.last_modified));
+
+    res.json({
+      success: true,
+      project: project.name,
+      files: matches.slice((page - 1) * pageSize, page * pageSize).map(file => ({
+        key: file.key,
+        name: file.name,
+        thumbnailUrl: file.thumbnail_url,
+        lastModified: file.last_modified,
+      })),
+      page,
+      pageSize,
+      total: matches.length,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode && error.statusCode < 500 ? error.statusCode : 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 // Debug endpoint to see raw Figma data
 router.post('/debug', async (req: Request, res: Response) => {
   try {
-    const { figmaUrl, apiKey } = req.body;
+    const { figmaUrl } = req.body;
     const fileId = extractFileId(figmaUrl);
     
     if (!fileId) {
       return res.status(400).json({ error: 'Invalid Figma URL' });
     }
 
-    const apiClient = new FigmaAPIClient(apiKey);
+    const credentials = await resolveCredentials(req);
+    if (!credentials) {
+      return res.status(400).json({ error: 'Missing apiKey, accessToken or Figma sign-in' });
+    }
+
+    const apiClient = new FigmaAPIClient(credentials);
     const figmaFile = await apiClient.getFile(fileId);
     
     res.json({
@@ -0,0 +1,194 @@
+import express, { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { FigmaOAuth, OAuthTokens } from '../auth/FigmaOAuth.js';
+import { sessionStore } from '../auth/SessionStore.js';
+import type { FigmaCredentials } from '../api/FigmaAPIClient.js';
+import { parseCookies } from '../utils/helpers.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+const SESSION_COOKIE = 'figma_session';
+const STATE_COOKIE = 'figma_oauth_state';
+// Refresh a little before expiry so in-flight conversions don't fail mid-way
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const oauth = FigmaOAuth.fromEnv();
+
+// One refresh per session at a time; concurrent requests near expiry share it
+const refreshes = new Map<string, Promise<OAuthTokens>>();
+
+// Clean up idle sessions
+setInterval(() => {
+  const removed = sessionStore.cleanup();
+  if (removed > 0) {
+    logger.debug(`Cleaned up ${removed} idle sessions`);
+  }
+}, 60 * 60 * 1000).unref();
+
+// Who a request acts for; watched files and their conversions belong to an owner
+export interface RequestIdentity {
+  credentials: FigmaCredentials;
+  // The signed-in Figma user, else a hash of the token the request carries
+  owner: string;
+  // Set when the credentials come from the sign-in session
+  sessionId?: string;
+}
+
+/**
+ * Works out which Figma credentials a request carries, in order of
+ * precedence: a personal access token (body, or X-Figma-Token since GET
+ * requests have no body), an OAuth bearer token (body or Authorization
+ * header), then the signed-in session.
+ */
+export async function resolveIdentity(req: Request): Promise<RequestIdentity | null> {
+  const { apiKey, accessToken } = req.body || {};
+  const headerToken = req.get('X-Figma-Token');
+  const authorization = req.get('Authorization');
+
+  if (typeof apiKey === 'string' && apiKey.trim()) {
+    return tokenIdentity({ type: 'personal', token: apiKey.trim() });
+  }
+
+  if (typeof accessToken === 'string' && accessToken.trim()) {
+    return tokenIdentity({ type: 'oauth', accessToken: accessToken.trim() });
+  }
+
+  if (headerToken?.trim()) {
+    return tokenIdentity({ type: 'personal', token: headerToken.trim() });
+  }
+
+  if (authorization?.startsWith('Bearer ')) {
+    return tokenIdentity({ type: 'oauth', accessToken: authorization.slice('Bearer '.length).trim() });
+  }
+
+  const session = sessionStore.get(parseCookies(req.get('Cookie'))[SESSION_COOKIE]);
+  const credentials = session ? await sessionCredentials(session.id) : null;
+  if (!session || !credentials) {
+    return null;
+  }
+
+  return {
+    credentials,
+    owner: session.tokens.userId ? `figma:${session.tokens.userId}` : `session:${session.id}`,
+    sessionId: session.id,
+  };
+}
+
+export async function resolveCredentials(req: Request): Promise<FigmaCredentials | null> {
+  return (await resolveIdentity(req))?.credentials || null;
+}
+
+/**
+ * Current credentials of a sign-in session, refreshed when close to
+ * expiry; null once the session has ended. Background work such as
+ * webhook reconversions keeps the session ID rather than a token.
+ */
+export async function sessionCredentials(sessionId: string): Promise<FigmaCredentials | null> {
+  const session = sessionStore.get(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  if (oauth && session.tokens.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
+    let refresh = refreshes.get(session.id);
+    if (!refresh) {
+      refresh = oauth
+        .refresh(session.tokens)
+        .then((tokens) => {
+          sessionStore.updateTokens(session.id, tokens);
+          return tokens;
+        })
+        .finally(() => refreshes.delete(session.id));
+      refreshes.set(session.id, refresh);
+    }
+
+    const tokens = await refresh;
+    return { type: 'oauth', accessToken: tokens.accessToken };
+  }
+
+  return { type: 'oauth', accessToken: session.tokens.accessToken };
+}
+
+function tokenIdentity(credentials: FigmaCredentials): RequestIdentity {
+  const token = credentials.type === 'personal' ? credentials.token : credentials.accessToken;
+  return { credentials, owner: `token:${createHash('sha256').update(token).digest('hex')}` };
+}
+
+router.get('/figma', (req: Request, res: Response) => {
+  if (!oauth) {
+    return res.status(501).json({
+      success: false,
+      error: 'Figma sign-in is not configured on this server',
+    });
+  }
+
+  const state = randomBytes(16).toString('hex');
+  res.cookie(STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    maxAge: 10 * 60 * 1000,
+  });
+  res.redirect(oauth.getAuthorizeUrl(state));
+});
+
+router.get('/figma/callback', async (req: Request, res: Response) => {
+  if (!oauth) {
+    return res.status(501).json({
+      success: false,
+      error: 'Figma sign-in is not configured on this server',
+    });
+  }
+
+  const { code, state, error } = req.query;
+  const expectedState = parseCookies(req.get('Cookie'))[STATE_COOKIE];
+  res.clearCookie(STATE_COOKIE);
+
+  if (error) {
+    return res.status(400).json({ success: false, error: `Figma sign-in was denied: ${error}` });
+  }
+
+  if (typeof code !== 'string' || typeof state !== 'string' || !expectedState || state !== expectedState) {
+    return res.status(400).json({ success: false, error: 'Invalid or expired sign-in request. Please try again.' });
+  }
+
+  try {
+    const tokens = await oauth.exchangeCode(code);
+    const session = sessionStore.create(tokens);
+
+    res.cookie(SESSION_COOKIE, session.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+    });
+
+    logger.info('Figma sign-in completed');
+    res.redirect(process.env.FIGMA_OAUTH_SUCCESS_REDIRECT || '/');
+  } catch (err: any) {
+    res.status(err.statusCode && err.statusCode < 500 ? 400 : 500).json({
+      success: false,
+      error: err.message,
+    });
+  }
+});
+
+router.get('/session', (req: Request, res: Response) => {
+  const session = sessionStore.get(parseCookies(req.get('Cookie'))[SESSION_COOKIE]);
+
+  res.json({
+    oauthEnabled: oauth !== null,
+    authenticated: Boolean(session),
+  });
+});
+
+router.post('/logout', (req: Request, res: Response) => {
+  const sessionId = parseCookies(req.get('Cookie'))[SESSION_COOKIE];
+  if (sessionId) {
+    sessionStore.delete(sessionId);
+  }
+  res.clearCookie(SESSION_COOKIE);
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,109 @@
+import express, { Request, Response } from 'express';
+import { FigmaAPIClient } from '../api/FigmaAPIClient.js';
+import { ConversionPipeline } from '../pipeline/ConversionPipeline.js';
+import { SourceLoader } from '../pipeline/SourceLoader.js';
+import { WebhookReceiver } from '../webhooks/WebhookReceiver.js';
+import { resolveIdentity, sessionCredentials } from './auth.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+export const webhookReceiver = WebhookReceiver.fromEnv(async (file) => {
+  logger.clearErrors();
+  logger.clearWarnings();
+
+  const credentials = file.credentials.type === 'session'
+    ? await sessionCredentials(file.credentials.sessionId)
+    : file.credentials;
+  if (!credentials) {
+    throw new Error('The Figma sign-in this file was watched with has ended; convert it again to keep watching');
+  }
+
+  const apiClient = new FigmaAPIClient(credentials);
+  const source = await new SourceLoader(apiClient).load(file.fileId, file.options);
+  return new ConversionPipeline().run(source, file.options);
+});
+
+const MISSING_CREDENTIALS = {
+  success: false,
+  error: 'Missing credentials: send the token the file was watched with or sign in with Figma',
+};
+
+export function latestArtifactUrl(watchId: string): string {
+  return `/api/webhooks/files/${encodeURIComponent(watchId)}/latest`;
+}
+
+// Figma's webhook delivery; answers immediately and converts after the debounce
+router.post('/figma', (req: Request, res: Response) => {
+  if (!webhookReceiver.enabled) {
+    return res.status(501).json({
+      success: false,
+      error: 'Figma webhooks are not configured on this server',
+    });
+  }
+
+  const outcome = webhookReceiver.receive(req.body || {});
+  if (outcome === 'rejected') {
+    return res.status(403).json({ success: false, error: 'Invalid webhook passcode' });
+  }
+
+  res.json({ success: true, outcome });
+});
+
+// Watched files and their conversions are only visible to whoever watched them
+router.get('/files', async (req: Request, res: Response) => {
+  const identity = await resolveIdentity(req);
+  if (!identity) {
+    return res.status(400).json(MISSING_CREDENTIALS);
+  }
+
+  res.json({
+    success: true,
+    files: webhookReceiver.getWatched(identity.owner).map(file => ({
+      id: file.id,
+      fileId: file.fileId,
+      options: file.options,
+      registeredAt: file.registeredAt,
+      lastConvertedAt: file.lastConvertedAt,
+      lastError: file.lastError,
+      latestUrl: latestArtifactUrl(file.id),
+    })),
+  });
+});
+
+router.delete('/files/:watchId', async (req: Request, res: Response) => {
+  const identity = await resolveIdentity(req);
+  if (!identity) {
+    return res.status(400).json(MISSING_CREDENTIALS);
+  }
+
+  if (!webhookReceiver.getWatch(req.params.watchId, identity.owner)) {
+    return res.status(404).json({ success: false, error: 'File is not being watched' });
+  }
+  webhookReceiver.unwatch(req.params.watchId);
+  res.json({ success: true });
+});
+
+// Stable URL for the newest ZIP of a watched file
+router.get('/files/:watchId/latest', async (req: Request, res: Response) => {
+  const identity = await resolveIdentity(req);
+  if (!identity) {
+    return res.status(400).json(MISSING_CREDENTIALS);
+  }
+
+  const watch = webhookReceiver.getWatch(req.params.watchId, identity.owner);
+  const artifact = watch && webhookReceiver.getArtifact(watch.id);
+  if (!artifact) {
+    return res.status(404).json({
+      success: false,
+      error: 'No conversion stored for this file',
+    });
+  }
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', 'attachment; filename="figma-export.zip"');
+  res.setHeader('Last-Modified', new Date(artifact.convertedAt).toUTCString());
+  res.send(artifact.zip);
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import cors from 'cors';
 import apiRouter from './routes/api.js';
+import authRouter from './routes/auth.js';
+import webhooksRouter from './routes/webhooks.js';
 import { logger, LogLevel } from './utils/logger.js';
 
 const app = express();
@@ -13,7 +15,7 @@ if (process.env.LOG_LEVEL) {
 
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '50mb' })); // Uploaded Figma documents can be large
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging
@@ -23,6 +25,8 @@ app.use((req, res, next) => {
 });
 
 // API routes
+app.use('/api/auth', authRouter);
+app.use('/api/webhooks', webhooksRouter);
 app.use('/api', apiRouter);
 
 // Health check
@@ -1,5 +1,7 @@
+import type { LayoutGrid } from '../types/figma.js';
 import type { ParsedNode, LayoutProperties, CSSProperties } from '../types/internal.js';
 import { LayoutStrategy } from '../types/internal.js';
+import { centersInColumn, horizontalCentering } from '../utils/centering.js';
 
 export class LayoutEngine {
   determineLayoutStrategy(node: ParsedNode): LayoutStrategy {
@@ -27,7 +29,7 @@ export class LayoutEngine {
         this.applyAbsoluteLayout(css, layout, node, parentNode);
         break;
       case LayoutStrategy.Flexbox:
-        this.applyFlexboxLayout(css, layout);
+        this.applyFlexboxLayout(css, layout, this.strokeInset(node));
         break;
       case LayoutStrategy.Grid:
         this.applyGridLayout(css, layout);
@@ -37,6 +39,17 @@ export class LayoutEngine {
         break;
     }
 
+    // Inferred flow layouts nudge children back to where they were drawn
+    if (layout.margin) {
+      const { top, right, bottom, left } = layout.margin;
+      const sides = { marginTop: top, marginRight: right, marginBottom: bottom, marginLeft: left };
+      for (const [property, value] of Object.entries(sides)) {
+        if (value > 0) {
+          css[property] = `${Math.round(value * 100) / 100}px`;
+        }
+      }
+    }
+
     // Apply dimensions - use precise values from Figma
     if (layout.width !== undefined && layout.width > 0) {
       // Round to 2 decimal places for sub-pixel precision
@@ -45,27 +58,15 @@ export class LayoutEngine {
     }
     
     // For small decorative elements (like bottom indicators) or centered text, center them
-    if (parentNode && layout.width && layout.height && layout.position && parentNode.layout.position && parentNode.layout.width) {
-      const relativeX = layout.position.x - parentNode.layout.position.x;
-      const parentWidth = parentNode.layout.width;
-      const elementWidth = layout.width;
-      const centerX = (parentWidth - elementWidth) / 2;
-      
-      // Check if element is horizontally centered (within 5px tolerance)
-      const isCentered = Math.abs(relativeX - centerX) < 5;
-      
-      // Check if element is a decorative line (small height, reasonable width)
-      const isDecorativeLine = layout.height < 10 && layout.width > 20 && layout.width < parentWidth * 0.8;
-      
-      // Check if element is a decorative container (like Home Indicator)
-      const isDecorativeContainer = layout.height < 30 && node.name.toLowerCase().includes('indicator');
+    const centering = parentNode && horizontalCentering(node, parentNode);
+    if (parentNode && centering) {
+      const { isCentered, isDecorativeLine, isDecorativeContainer } = centering;
       
       // Check if element is small (like a decorative indicator)
-      const isSmallElement = layout.width < 150 && layout.height < 10;
+      const isSmallElement = layout.width! < 150 && layout.height! < 10;
       
       // For flexbox layouts with column direction
-      if (parentNode.layout.strategy === LayoutStrategy.Flexbox && 
-          parentNode.layout.flexDirection === 'column') {
+      if (centersInColumn(node, parentNode)) {
         // Always center decorative elements regardless of position
         if (isDecorativeLine || isDecorativeContainer) {
           css.alignSelf = 'center';
@@ -103,8 +104,8 @@ export class LayoutEngine {
       // Round to 2 decimal places for sub-pixel precision
       const preciseHeight = Math.round(layout.height * 100) / 100;
       
-      if (layout.strategy === LayoutStrategy.Flexbox) {
-        // For flex containers with auto-layout, use min-height to allow growth
+      if (layout.strategy === LayoutStrategy.Flexbox || layout.strategy === LayoutStrategy.Grid) {
+        // For flex and grid containers, use min-height to allow growth
         css.minHeight = `${preciseHeight}px`;
       } else if (layout.strategy === LayoutStrategy.Absolute) {
         // For absolute positioned containers, use exact height from Figma
@@ -115,14 +116,118 @@ export class LayoutEngine {
       }
     }
 
-    // Apply constraints if present
-    if (layout.constraints) {
+    const inGrid = parentNode?.layout.strategy === LayoutStrategy.Grid && Boolean(parentNode.layout.columnGrid);
+    if (inGrid) {
+      this.applyGridPlacement(css, node, parentNode!);
+    }
+
+    // Fill/Hug/Fixed: only fixed axes keep their pixel size
+    if (layout.sizing) {
+      this.applySizing(css, layout.sizing, parentNode);
+    }
+
+    // Designer-set size limits win over the inferred ones
+    for (const property of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+      const value = layout[property];
+      if (value !== undefined) {
+        css[property] = `${Math.round(value * 100) / 100}px`;
+      }
+    }
+
+    // Absolute children of an auto-layout frame leave its flow but keep their own layout
+    if (layout.absolutePositioned && parentNode && effectiveStrategy !== LayoutStrategy.Absolute) {
+      this.applyAbsoluteLayout(css, layout, node, parentNode);
+    }
+    if (!css.position && node.children.some(child => child.layout.absolutePositioned)) {
+      css.position = 'relative';
+    }
+
+    // Overlapping siblings stack in Figma's paint order, whatever their DOM order or positioning
+    const stackLevel = parentNode ? this.stackLevel(node, parentNode) : undefined;
+    if (stackLevel !== undefined) {
+      css.zIndex = stackLevel;
+      const parentIsLayout = parentNode!.layout.strategy === LayoutStrategy.Flexbox
+        || parentNode!.layout.strategy === LayoutStrategy.Grid;
+      if (!css.position && !parentIsLayout) {
+        css.position = 'relative';
+      }
+    }
+    // Keeps those levels from competing with layers elsewhere on the page
+    if (node.children.some(child => this.stackLevel(child, node) !== undefined)) {
+      css.isolation = 'isolate';
+    }
+
+    // Apply constraints if present; grid columns already resize grid children
+    if (layout.constraints && !inGrid) {
       this.applyConstraints(css, layout.constraints);
     }
 
+    // Rotate about the center; listed last so centering translates still apply to the unrotated box
+    if (layout.rotation) {
+      const rotate = `rotate(${layout.rotation}deg)`;
+      css.transform = css.transform ? `${css.transform} ${rotate}` : rotate;
+      css.transformOrigin = 'center';
+    }
+
     return css;
   }
 
+  // 1-based rank in the parent's paint order, for children that overlap a sibling
+  private stackLevel(node: ParsedNode, parentNode: ParsedNode): number | undefined {
+    const siblings = parentNode.children.filter(sibling => sibling !== node);
+    if (!siblings.some(sibling => this.overlaps(node.layout, sibling.layout))) {
+      return undefined;
+    }
+
+    const order = node.layout.stackOrder ?? 0;
+    return 1 + siblings.filter(sibling => (sibling.layout.stackOrder ?? 0) < order).length;
+  }
+
+  private overlaps(a: LayoutProperties, b: LayoutProperties): boolean {
+    if (!a.position || !b.position) {
+      return false;
+    }
+    const { x: ax, y: ay } = a.position;
+    const { x: bx, y: by } = b.position;
+    return ax < bx + (b.width || 0) && bx < ax + (a.width || 0)
+      && ay < by + (b.height || 0) && by < ay + (a.height || 0);
+  }
+
+  private applySizing(
+    css: CSSProperties,
+    sizing: NonNullable<LayoutProperties['sizing']>,
+    parentNode?: ParsedNode
+  ): void {
+    const parentDirection = parentNode?.layout.strategy === LayoutStrategy.Flexbox
+      ? parentNode.layout.flexDirection || 'column'
+      : undefined;
+
+    if (sizing.horizontal === 'FILL' && parentDirection) {
+      delete css.width;
+      if (parentDirection === 'row') {
+        css.flex = '1';
+      } else {
+        css.alignSelf = 'stretch';
+      }
+    } else if (sizing.horizontal === 'HUG') {
+      // Plain auto would stretch to the parent's width in block or stretch contexts
+      css.width = 'fit-content';
+    }
+
+    if (sizing.vertical === 'FILL' && parentDirection) {
+      delete css.height;
+      delete css.minHeight;
+      if (parentDirection === 'column') {
+        css.flex = '1';
+      } else {
+        css.alignSelf = 'stretch';
+      }
+    } else if (sizing.vertical === 'HUG') {
+      delete css.height;
+      delete css.minHeight;
+    }
+  }
+
   private applyAbsoluteLayout(
     css: CSSProperties,
     layout: LayoutProperties,
@@ -171,7 +276,8 @@ export class LayoutEngine {
     }
   }
 
-  private applyFlexboxLayout(css: CSSProperties, layout: LayoutProperties): void {
+  // strokeInset is border width that Figma keeps out of the padding
+  private applyFlexboxLayout(css: CSSProperties, layout: LayoutProperties, strokeInset = 0): void {
     css.display = 'flex';
 
     // Use actual Figma layout direction
@@ -187,14 +293,27 @@ export class LayoutEngine {
       css.gap = `${preciseGap}px`;
     }
 
+    if (layout.flexWrap) {
+      css.flexWrap = 'wrap';
+      // Item spacing runs along the main axis, the counter-axis spacing between wrapped lines
+      const itemGap = `${Math.round((layout.gap || 0) * 100) / 100}px`;
+      const lineGap = `${Math.round((layout.counterAxisGap || 0) * 100) / 100}px`;
+      delete css.gap;
+      css.rowGap = css.flexDirection === 'row' ? lineGap : itemGap;
+      css.columnGap = css.flexDirection === 'row' ? itemGap : lineGap;
+      if (layout.alignContent) {
+        css.alignContent = layout.alignContent;
+      }
+    }
+
     // Only apply padding if Figma specifies it - use precise values
     if (layout.padding) {
       const { top, right, bottom, left } = layout.padding;
       // Use sub-pixel precision for padding
-      const preciseTop = Math.round(top * 100) / 100;
-      const preciseRight = Math.round(right * 100) / 100;
-      const preciseBottom = Math.round(bottom * 100) / 100;
-      const preciseLeft = Math.round(left * 100) / 100;
+      const preciseTop = Math.round(Math.max(0, top - strokeInset) * 100) / 100;
+      const preciseRight = Math.round(Math.max(0, right - strokeInset) * 100) / 100;
+      const preciseBottom = Math.round(Math.max(0, bottom - strokeInset) * 100) / 100;
+      const preciseLeft = Math.round(Math.max(0, left - strokeInset) * 100) / 100;
       
       if (preciseTop === preciseRight && preciseRight === preciseBottom && preciseBottom === preciseLeft) {
         if (preciseTop > 0) {
@@ -220,8 +339,52 @@ export class LayoutEngine {
     }
   }
 
+  /**
+   * CSS borders sit inside the box and push content in; Figma strokes
+   * don't, unless the frame includes strokes in its layout.
+   */
+  strokeInset(node: ParsedNode): number {
+    if (node.layout.strokesIncludedInLayout !== false) {
+      return 0;
+    }
+
+    const stroke = node.styles.strokes.find(candidate => candidate.visible !== false);
+    if (!stroke || stroke.align === 'OUTSIDE') {
+      return 0;
+    }
+    return stroke.weight || 1;
+  }
+
   private applyGridLayout(css: CSSProperties, layout: LayoutProperties): void {
     css.display = 'grid';
+
+    if (layout.columnGrid) {
+      const { count = 1, gutterSize = 0, offset = 0, alignment = 'STRETCH', sectionSize } = layout.columnGrid;
+      css.gridTemplateColumns = alignment === 'STRETCH'
+        ? `repeat(${count}, minmax(0, 1fr))`
+        : `repeat(${count}, ${sectionSize}px)`;
+      if (gutterSize > 0) {
+        css.columnGap = `${gutterSize}px`;
+      }
+
+      // The grid's margins; CENTER ignores its offset
+      if (alignment === 'STRETCH' && offset > 0) {
+        css.padding = `0px ${offset}px`;
+      } else if (alignment === 'MIN' && offset > 0) {
+        css.padding = `0px 0px 0px ${offset}px`;
+      } else if (alignment === 'MAX') {
+        css.justifyContent = 'end';
+        if (offset > 0) {
+          css.padding = `0px ${offset}px 0px 0px`;
+        }
+      } else if (alignment === 'CENTER') {
+        css.justifyContent = 'center';
+      }
+
+      // Children keep their own heights; margins place them within each row
+      css.alignItems = 'start';
+      return;
+    }
     
     if (layout.gap !== undefined && layout.gap > 0) {
       css.gap = `${layout.gap}px`;
@@ -233,6 +396,95 @@ export class LayoutEngine {
     }
   }
 
+  /**
+   * Puts a child of a column-grid frame into the columns its edges sit
+   * closest to. Rows are bands of vertically overlapping siblings, and
+   * margins keep each child where it sat within its cell.
+   */
+  private applyGridPlacement(css: CSSProperties, node: ParsedNode, parentNode: ParsedNode): void {
+    const { position, width = 0 } = node.layout;
+    const origin = parentNode.layout.position;
+    if (!position || !origin) {
+      return;
+    }
+
+    const columns = this.gridColumns(parentNode.layout.columnGrid!, parentNode.layout.width || 0);
+    const left = position.x - origin.x;
+    const right = left + width;
+    const first = this.nearestIndex(columns.map(column => column.start), left);
+    const last = first + this.nearestIndex(columns.slice(first).map(column => column.end), right);
+    css.gridColumn = `${first + 1} / ${last + 2}`;
+
+    const bands = this.gridRows(parentNode);
+    const band = bands.findIndex(candidate => candidate.members.includes(node));
+    css.gridRow = `${band + 1}`;
+    const top = position.y - (band > 0 ? bands[band - 1].bottom : origin.y);
+    if (Math.abs(top) > 0.5) {
+      css.marginTop = `${Math.round(top * 100) / 100}px`;
+    }
+
+    // A child spanning its columns edge to edge grows and shrinks with them
+    const offsetX = left - columns[first].start;
+    if (Math.abs(offsetX) < 1 && Math.abs(right - columns[last].end) < 1) {
+      delete css.width;
+    } else {
+      css.justifySelf = 'start';
+      if (Math.abs(offsetX) > 0.5) {
+        css.marginLeft = `${Math.round(offsetX * 100) / 100}px`;
+      }
+    }
+
+    // In the grid's flow now, but still the containing block of absolute children
+    delete css.left;
+    delete css.top;
+    delete css.transform;
+    if (css.position === 'absolute') {
+      css.position = 'relative';
+    }
+  }
+
+  private gridColumns(grid: LayoutGrid, frameWidth: number): Array<{ start: number; end: number }> {
+    const { count = 1, gutterSize = 0, offset = 0, alignment = 'STRETCH' } = grid;
+    const size = alignment === 'STRETCH'
+      ? (frameWidth - 2 * offset - (count - 1) * gutterSize) / count
+      : grid.sectionSize;
+    const total = count * size + (count - 1) * gutterSize;
+    const origin = alignment === 'MAX'
+      ? frameWidth - offset - total
+      : alignment === 'CENTER' ? (frameWidth - total) / 2 : offset;
+
+    return Array.from({ length: count }, (_, index) => {
+      const start = origin + index * (size + gutterSize);
+      return { start, end: start + size };
+    });
+  }
+
+  // Top-to-bottom bands of children whose boxes overlap vertically
+  private gridRows(parentNode: ParsedNode): Array<{ members: ParsedNode[]; bottom: number }> {
+    const placed = parentNode.children
+      .filter(child => child.layout.position)
+      .sort((a, b) => a.layout.position!.y - b.layout.position!.y);
+
+    const bands: Array<{ members: ParsedNode[]; bottom: number }> = [];
+    for (const child of placed) {
+      const top = child.layout.position!.y;
+      const bottom = top + (child.layout.height || 0);
+      const band = bands[bands.length - 1];
+      if (band && top < band.bottom - 0.5) {
+        band.members.push(child);
+        band.bottom = Math.max(band.bottom, bottom);
+      } else {
+        bands.push({ members: [child], bottom });
+      }
+    }
+    return bands;
+  }
+
+  private nearestIndex(values: number[], target: number): number {
+    return values.reduce((best, value, index) =>
+      Math.abs(value - target) < Math.abs(values[best] - target) ? index : best, 0);
+  }
+
   private applyStaticLayout(css: CSSProperties, layout: LayoutProperties): void {
     // Static layout uses default flow
     if (layout.padding) {
@@ -1,5 +1,6 @@
 import type { Fill, Stroke, Effect, RGBA, TextStyle } from '../types/figma.js';
-import type { CSSProperties } from '../types/internal.js';
+import type { CSSProperties, VariableBindings, BindableProperty } from '../types/internal.js';
+import type { VariableResolver, VariableKind } from './VariableResolver.js';
 import { rgbaToCSS } from '../utils/helpers.js';
 import { logger } from '../utils/logger.js';
 
@@ -9,9 +10,20 @@ const WEB_SAFE_FONTS = [
   'Trebuchet MS', 'Arial Black', 'Impact'
 ];
 
+const TEXT_CASES: Partial<Record<NonNullable<TextStyle['textCase']>, CSSProperties>> = {
+  UPPER: { textTransform: 'uppercase' },
+  LOWER: { textTransform: 'lowercase' },
+  TITLE: { textTransform: 'capitalize' },
+  SMALL_CAPS: { fontVariantCaps: 'small-caps' },
+  SMALL_CAPS_FORCED: { fontVariantCaps: 'all-small-caps' },
+};
+
 export class StyleMapper {
   private warnings: string[] = [];
 
+  // imageRef → exported file; refs without one fall back to a PNG path
+  constructor(private imagePaths: Record<string, string> = {}) {}
+
   getWarnings(): string[] {
     return this.warnings;
   }
@@ -96,6 +108,29 @@ export class StyleMapper {
     return css;
   }
 
+  /**
+   * A line's stroke becomes one border of an <hr>; the box itself is
+   * collapsed to zero on the other axis so only the stroke shows.
+   */
+  mapLineToCSS(strokes: Stroke[], vertical: boolean): CSSProperties {
+    const css: CSSProperties = { border: 'none' };
+    const stroke = strokes.find(s => s.visible !== false && s.type === 'SOLID' && s.color);
+
+    if (stroke?.color) {
+      const { r, g, b, a } = stroke.color;
+      const line = `${stroke.weight || 1}px solid ${rgbaToCSS(r, g, b, a)}`;
+      if (vertical) {
+        css.borderLeft = line;
+        css.width = '0';
+      } else {
+        css.borderTop = line;
+        css.height = '0';
+      }
+    }
+
+    return css;
+  }
+
   mapEffectsToCSS(effects: Effect[]): CSSProperties {
     const css: CSSProperties = {};
 
@@ -140,7 +175,8 @@ export class StyleMapper {
     return css;
   }
 
-  mapTypographyToCSS(style?: TextStyle): CSSProperties {
+  // boxHeight is the fixed height of the text box, for truncation without maxLines
+  mapTypographyToCSS(style?: TextStyle, boxHeight?: number): CSSProperties {
     const css: CSSProperties = {};
 
     if (!style) {
@@ -154,8 +190,11 @@ export class StyleMapper {
       // Check if it's a custom font
       if (!this.isWebSafeFont(style.fontFamily)) {
         const warning = `Custom font "${style.fontFamily}" may not render correctly without font files`;
-        this.warnings.push(warning);
-        logger.warn(warning);
+        // Text runs repeat their paragraph's font
+        if (!this.warnings.includes(warning)) {
+          this.warnings.push(warning);
+          logger.warn(warning);
+        }
       }
     }
 
@@ -169,6 +208,10 @@ export class StyleMapper {
       css.fontWeight = style.fontWeight;
     }
 
+    if (style.italic) {
+      css.fontStyle = 'italic';
+    }
+
     // Line height - use exact values from Figma
     if (style.lineHeightPx) {
       // Use precise pixel value
@@ -200,6 +243,58 @@ export class StyleMapper {
       css.textDecoration = style.textDecoration.toLowerCase().replace('_', '-');
     }
 
+    if (style.textCase && TEXT_CASES[style.textCase]) {
+      Object.assign(css, TEXT_CASES[style.textCase]);
+    }
+
+    if (style.paragraphIndent) {
+      css.textIndent = `${style.paragraphIndent}px`;
+    }
+
+    Object.assign(css, this.mapTextBox(style, boxHeight));
+
+    return css;
+  }
+
+  /**
+   * Sizing, truncation and vertical alignment of a text box. Auto-resizing
+   * boxes replace the fixed size from layout, so text in a slightly
+   * different font grows its box instead of clipping or overflowing.
+   */
+  private mapTextBox(style: TextStyle, boxHeight?: number): CSSProperties {
+    const css: CSSProperties = {};
+    const resize = style.textAutoResize || 'NONE';
+
+    if (resize === 'WIDTH_AND_HEIGHT') {
+      css.width = 'max-content';
+      css.height = 'auto';
+    } else if (resize === 'HEIGHT') {
+      css.height = 'auto';
+    }
+
+    if (style.textTruncation === 'ENDING' || resize === 'TRUNCATE') {
+      // Without maxLines Figma truncates at the last line that fits the box
+      const fitting = boxHeight && style.lineHeightPx ? Math.floor(boxHeight / style.lineHeightPx) : 1;
+      const lines = Math.max(1, style.maxLines ?? fitting);
+      css.overflow = 'hidden';
+      css.textOverflow = 'ellipsis';
+      if (lines > 1) {
+        css.display = '-webkit-box';
+        css.WebkitBoxOrient = 'vertical';
+        css.WebkitLineClamp = lines;
+      } else {
+        css.whiteSpace = 'nowrap';
+      }
+      return css;
+    }
+
+    // Only a fixed box has room to align the text in
+    if (resize === 'NONE' && (style.textAlignVertical === 'CENTER' || style.textAlignVertical === 'BOTTOM')) {
+      css.display = 'flex';
+      css.flexDirection = 'column';
+      css.justifyContent = style.textAlignVertical === 'CENTER' ? 'center' : 'flex-end';
+    }
+
     return css;
   }
 
@@ -257,6 +352,86 @@ export class StyleMapper {
     return {};
   }
 
+  /**
+   * Replaces literal values with var() references to the variables they
+   * are bound to. Only values already present in css are replaced, since
+   * the binding alone doesn't say whether a property applies here.
+   * fillOpacity is the bound fill's paint opacity, which the variable's
+   * color doesn't carry; strokeInset is the border width LayoutEngine took
+   * off the padding.
+   */
+  mapVariableBindings(
+    css: CSSProperties,
+    bindings: VariableBindings | undefined,
+    variables: VariableResolver,
+    context: { isText: boolean; fillOpacity: number; strokeInset: number }
+  ): void {
+    if (!bindings) {
+      return;
+    }
+
+    const reference = (property: BindableProperty, kind: VariableKind): string | null => {
+      const variableId = bindings[property];
+      return variableId ? variables.reference(variableId, kind) : null;
+    };
+
+    const replace = (cssProperty: string, value: string | null) => {
+      if (value && css[cssProperty] !== undefined) {
+        css[cssProperty] = value;
+      }
+    };
+
+    const fill = reference('fill', 'color');
+    const fillOpacity = Math.round(context.fillOpacity * 10000) / 100;
+    replace(
+      context.isText ? 'color' : 'backgroundColor',
+      fill && fillOpacity < 100 ? `color-mix(in srgb, ${fill} ${fillOpacity}%, transparent)` : fill
+    );
+
+    const stroke = reference('stroke', 'color');
+    if (stroke) {
+      for (const property of ['border', 'outline']) {
+        const value = css[property];
+        if (typeof value === 'string') {
+          css[property] = value.replace(/^(\S+ solid ).+$/, `$1${stroke}`);
+        }
+      }
+    }
+
+    // A uniform radius only; per-corner values keep their literals
+    if (typeof css.borderRadius === 'string' && !css.borderRadius.includes(' ')) {
+      replace('borderRadius', reference('cornerRadius', 'length'));
+    }
+
+    replace('gap', reference('itemSpacing', 'length'));
+    // Wrapping layouts split the gap; item spacing is the main-axis one
+    if (css.flexWrap === 'wrap') {
+      replace(css.flexDirection === 'row' ? 'columnGap' : 'rowGap', reference('itemSpacing', 'length'));
+    }
+    replace('opacity', reference('opacity', 'percent'));
+    replace('fontFamily', reference('fontFamily', 'string'));
+    replace('fontSize', reference('fontSize', 'length'));
+    replace('fontWeight', reference('fontWeight', 'number'));
+    replace('lineHeight', reference('lineHeight', 'length'));
+    replace('letterSpacing', reference('letterSpacing', 'length'));
+
+    if (typeof css.padding === 'string') {
+      const sides = this.expandBoxShorthand(css.padding);
+      const inset = context.strokeInset;
+      const bound = (['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'] as const).map((property, i) => {
+        const variable = reference(property, 'length');
+        // Negative results clamp to zero, like the literal padding
+        return variable ? (inset > 0 ? `calc(${variable} - ${inset}px)` : variable) : sides[i];
+      });
+      css.padding = bound.every(side => side === bound[0]) ? bound[0] : bound.join(' ');
+    }
+  }
+
+  private expandBoxShorthand(value: string): string[] {
+    const [top, right = top, bottom = top, left = right] = value.split(/\s+/);
+    return [top, right, bottom, left];
+  }
+
   private applySingleFill(css: CSSProperties, fill: Fill): void {
     if (fill.type === 'SOLID' && fill.color) {
       const opacity = fill.opacity ?? 1;
@@ -273,7 +448,7 @@ export class StyleMapper {
         css.background = gradient;
       }
     } else if (fill.type === 'IMAGE' && fill.imageRef) {
-      css.backgroundImage = `url(assets/${fill.imageRef}.png)`;
+      css.backgroundImage = `url(${this.imagePath(fill.imageRef)})`;
       css.backgroundSize = 'cover';
       css.backgroundPosition = 'center';
     }
@@ -291,11 +466,15 @@ export class StyleMapper {
     } else if (fill.type.startsWith('GRADIENT')) {
       return this.createGradientString(fill);
     } else if (fill.type === 'IMAGE' && fill.imageRef) {
-      return `url(assets/${fill.imageRef}.png)`;
+      return `url(${this.imagePath(fill.imageRef)})`;
     }
     return null;
   }
 
+  private imagePath(imageRef: string): string {
+    return this.imagePaths[imageRef] || `assets/${imageRef}.png`;
+  }
+
   private createGradientString(fill: Fill): string | null {
     if (!fill.gradientStops || fill.gradientStops.length === 0) {
       return null;
@@ -1,23 +1,93 @@
-import type { ParsedNode, TransformedNode, HTMLElement, CSSProperties } from '../types/internal.js';
+import type {
+  ParsedNode,
+  TransformedNode,
+  HTMLElement,
+  CSSProperties,
+  DesignTokens,
+  SVGMode,
+  VectorGraphic,
+  RasterImage,
+  StyleDefinition,
+} from '../types/internal.js';
 import { LayoutEngine } from './LayoutEngine.js';
 import { StyleMapper } from './StyleMapper.js';
+import type { VariableResolver } from './VariableResolver.js';
+import type { Fill, Hyperlink, TextStyle, TextStyleOverride } from '../types/figma.js';
+import { sanitizeClassName } from '../utils/helpers.js';
 import { logger } from '../utils/logger.js';
 
+export interface TransformerOptions {
+  variables?: VariableResolver | null;
+  // imageRef → exported file, from AssetManager
+  imagePaths?: Record<string, string>;
+  // Node ID → SVG for vector and icon nodes, from AssetManager
+  vectors?: Record<string, VectorGraphic>;
+  svgMode?: SVGMode;
+  // Node ID → rendered image for nodes marked for export
+  rasters?: Record<string, RasterImage>;
+  // URL prefix → replacement for hyperlinks
+  linkRewrites?: Record<string, string>;
+  // Style node ID → the shared style's own values, from SourceLoader
+  styleDefinitions?: Record<string, StyleDefinition>;
+}
+
+// Properties a shared text style owns; everything else stays on the node
+const TYPOGRAPHY_PROPERTIES = ['fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'lineHeight', 'letterSpacing'];
+// Properties a text run can change within its paragraph
+const INLINE_PROPERTIES = [
+  ...TYPOGRAPHY_PROPERTIES, 'textDecoration', 'textTransform', 'fontVariantCaps', 'color',
+];
+// Values that undo a paragraph property a text run turns off
+const INLINE_RESETS: CSSProperties = {
+  fontStyle: 'normal',
+  textDecoration: 'none',
+  textTransform: 'none',
+  fontVariantCaps: 'normal',
+};
+// Runs at least this heavy in a lighter paragraph are emphasis
+const BOLD_WEIGHT = 600;
+
 export class Transformer {
   private layoutEngine: LayoutEngine;
   private styleMapper: StyleMapper;
   private warnings: string[] = [];
+  private tokens: DesignTokens = { variables: {}, textStyles: {}, themes: [] };
+  // Shared style uses, settled once every layer has been seen
+  private variableUses = new Map<string, Array<{ value: string; substitute: () => void }>>();
+  private textStyleUses = new Map<string, Array<{ styles: CSSProperties; typography: CSSProperties }>>();
 
-  constructor() {
+  private variables: VariableResolver | null;
+  private vectors: Record<string, VectorGraphic>;
+  private svgMode: SVGMode;
+  private rasters: Record<string, RasterImage>;
+  private linkRewrites: Record<string, string>;
+  private styleDefinitions: Record<string, StyleDefinition>;
+
+  constructor(options: TransformerOptions = {}) {
     this.layoutEngine = new LayoutEngine();
-    this.styleMapper = new StyleMapper();
+    this.styleMapper = new StyleMapper(options.imagePaths);
+    this.variables = options.variables || null;
+    this.vectors = options.vectors || {};
+    this.svgMode = options.svgMode || 'inline';
+    this.rasters = options.rasters || {};
+    this.linkRewrites = options.linkRewrites || {};
+    this.styleDefinitions = options.styleDefinitions || {};
   }
 
   transform(parsedNode: ParsedNode, parentNode?: ParsedNode): TransformedNode {
     logger.info('Starting transformation');
     this.warnings = [];
+    const variableTokens = this.variables?.getTokens();
+    this.tokens = {
+      variables: { ...variableTokens?.root },
+      textStyles: {},
+      themes: variableTokens?.themes || [],
+    };
+    this.variableUses.clear();
+    this.textStyleUses.clear();
 
     const transformed = this.transformNode(parsedNode, parentNode);
+    this.settleSharedStyles();
     
     // Collect warnings from style mapper
     this.warnings.push(...this.styleMapper.getWarnings());
@@ -35,7 +105,26 @@ export class Transformer {
     return this.warnings;
   }
 
+  // Custom properties, themes and typography classes from variables and shared styles
+  getDesignTokens(): DesignTokens {
+    return this.tokens;
+  }
+
   private transformNode(node: ParsedNode, parentNode?: ParsedNode): TransformedNode {
+    const raster = this.rasters[node.id];
+    if (raster) {
+      return this.transformRaster(node, raster, parentNode);
+    }
+
+    const vector = this.vectors[node.id];
+    if (vector) {
+      return this.transformVector(node, vector, parentNode);
+    }
+
+    if (node.type === 'LINE') {
+      return this.transformLine(node, parentNode);
+    }
+
     // Create HTML element structure
     const element: HTMLElement = {
       tag: this.determineHTMLTag(node),
@@ -46,10 +135,24 @@ export class Transformer {
       children: [],
     };
 
+    // A named region is a landmark only with an accessible name
+    if (node.type === 'SECTION') {
+      element.attributes['aria-label'] = node.name;
+    }
+
+    // Fully linked text; partly linked text gets anchors from inlineRuns
+    const link = node.type === 'TEXT' ? this.linkAttributes(node.styles.textStyle?.hyperlink) : null;
+    if (link) {
+      Object.assign(element.attributes, link);
+    }
+
     // Add text content for TEXT nodes
     if (node.textContent) {
       element.textContent = node.textContent;
     }
+    if (node.textRuns) {
+      element.children = this.inlineRuns(node);
+    }
 
     // Generate CSS styles
     const styles: CSSProperties = {};
@@ -62,7 +165,7 @@ export class Transformer {
     if (node.type === 'TEXT') {
       // Apply typography for text nodes
       if (node.styles.textStyle) {
-        const typographyCSS = this.styleMapper.mapTypographyToCSS(node.styles.textStyle);
+        const typographyCSS = this.styleMapper.mapTypographyToCSS(node.styles.textStyle, node.layout.height);
         Object.assign(styles, typographyCSS);
       }
       
@@ -81,14 +184,12 @@ export class Transformer {
       }
       
       // Apply text color from fills
-      if (node.styles.fills && node.styles.fills.length > 0) {
-        const firstFill = node.styles.fills[0];
-        if (firstFill.type === 'SOLID' && firstFill.color) {
-          const { r, g, b, a } = firstFill.color;
-          const opacity = firstFill.opacity ?? 1;
-          styles.color = this.rgbaToCSS(r, g, b, a * opacity);
-        }
+      const color = this.textColor(node.styles.fills);
+      if (color) {
+        styles.color = color;
       }
+
+      this.layoutTextContent(node, element, styles);
     } else {
       // For non-text nodes, apply fill styles as backgrounds
       const fillCSS = this.styleMapper.mapFillsToCSS(node.styles.fills);
@@ -111,15 +212,38 @@ export class Transformer {
     const blendModeCSS = this.styleMapper.mapBlendMode(node.styles.blendMode);
     Object.assign(styles, blendModeCSS);
 
-    // Apply corner radius
-    const cornerRadiusCSS = this.styleMapper.mapCornerRadius(node.styles.cornerRadius);
+    // Apply corner radius; ellipses are round whatever their size
+    const cornerRadiusCSS = node.type === 'ELLIPSE'
+      ? { borderRadius: '50%' }
+      : this.styleMapper.mapCornerRadius(node.styles.cornerRadius);
     Object.assign(styles, cornerRadiusCSS);
 
+    // Bound variables win over literals; shared styles then resolve to them
+    if (this.variables) {
+      this.styleMapper.mapVariableBindings(styles, node.styles.boundVariables, this.variables, {
+        isText: node.type === 'TEXT',
+        fillOpacity: node.styles.fills.find(fill => fill.visible !== false)?.opacity ?? 1,
+        strokeInset: this.layoutEngine.strokeInset(node),
+      });
+    }
+
+    // Swap literal values for the named shared styles they came from
+    this.applyStyleReferences(node, element, styles);
+
     // Transform children recursively
-    const children: TransformedNode[] = node.children.map(child =>
+    let children: TransformedNode[] = node.children.map(child =>
       this.transformNode(child, node)
     );
 
+    if (node.type === 'TABLE') {
+      // Rows and cells size the table; an inferred flex or grid layout doesn't apply
+      for (const property of ['display', 'flexDirection', 'flexWrap', 'justifyContent', 'alignItems', 'gap', 'padding']) {
+        delete styles[property];
+      }
+      styles.borderCollapse = 'collapse';
+      children = this.tableRows(node, children);
+    }
+
     return {
       element,
       styles,
@@ -127,6 +251,462 @@ export class Transformer {
     };
   }
 
+  private transformLine(node: ParsedNode, parentNode?: ParsedNode): TransformedNode {
+    const vertical = node.bounds.height > node.bounds.width;
+    const styles = {
+      ...this.placementStyles(node, parentNode),
+      ...this.styleMapper.mapLineToCSS(node.styles.strokes, vertical),
+    };
+
+    return {
+      element: { tag: 'hr', attributes: { id: node.id, 'data-name': node.name }, children: [] },
+      styles,
+      children: [],
+    };
+  }
+
+  /**
+   * Figma lists table cells flat and positions them absolutely; HTML needs
+   * them in rows. Cells are grouped by their top edge and lose their
+   * absolute offsets so the table lays them out.
+   */
+  private tableRows(table: ParsedNode, cells: TransformedNode[]): TransformedNode[] {
+    const rows = new Map<number, Array<{ x: number; cell: TransformedNode }>>();
+
+    table.children.forEach((child, index) => {
+      const cell = cells[index];
+      for (const property of ['position', 'left', 'top', 'transform']) {
+        delete cell.styles[property];
+      }
+
+      const y = Math.round(child.bounds.y);
+      rows.set(y, [...(rows.get(y) || []), { x: child.bounds.x, cell }]);
+    });
+
+    return [...rows.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, row], index) => ({
+        element: {
+          tag: 'tr',
+          attributes: { id: `${table.id}-row-${index + 1}`, 'data-name': `Row ${index + 1}` },
+          children: [],
+        },
+        styles: {},
+        children: row.sort((a, b) => a.x - b.x).map(({ cell }) => cell),
+      }));
+  }
+
+  private transformVector(node: ParsedNode, vector: VectorGraphic, parentNode?: ParsedNode): TransformedNode {
+    // Paint lives in the SVG, so only placement and compositing go to CSS
+    const styles = this.placementStyles(node, parentNode);
+
+    const element: HTMLElement = this.svgMode === 'file'
+      ? {
+          tag: 'img',
+          attributes: {
+            id: node.id,
+            'data-name': node.name,
+            src: vector.localPath,
+            alt: node.name,
+            width: String(vector.width),
+            height: String(vector.height),
+          },
+          children: [],
+        }
+      : {
+          tag: 'svg',
+          attributes: {
+            id: node.id,
+            'data-name': node.name,
+            xmlns: 'http://www.w3.org/2000/svg',
+            width: String(vector.width),
+            height: String(vector.height),
+            viewBox: `0 0 ${vector.width} ${vector.height}`,
+            fill: 'none',
+            overflow: 'visible',
+            role: 'img',
+            'aria-label': node.name,
+          },
+          children: [],
+          rawContent: vector.body,
+        };
+
+    return { element, styles, children: [] };
+  }
+
+  private transformRaster(node: ParsedNode, raster: RasterImage, parentNode?: ParsedNode): TransformedNode {
+    // Figma renders a rotated node upright into its bounding box, so the image is not rotated again
+    const styles = this.placementStyles(node.layout.rotation ? this.boundingBoxOf(node) : node, parentNode);
+    const [first] = raster.sources;
+    const size = { width: String(raster.width), height: String(raster.height) };
+
+    if (raster.format === 'pdf') {
+      return {
+        element: {
+          tag: 'object',
+          attributes: { id: node.id, 'data-name': node.name, data: first.localPath, type: 'application/pdf', ...size },
+          children: [],
+          // Shown where PDFs can't be embedded
+          textContent: node.name,
+        },
+        styles,
+        children: [],
+      };
+    }
+
+    // The 1x rendition (or the smallest) is the fallback for browsers without srcset
+    const fallback = raster.sources.find(source => source.scale === 1) || first;
+    const attributes: Record<string, string> = {
+      id: node.id,
+      'data-name': node.name,
+      src: fallback.localPath,
+      alt: node.name,
+      ...size,
+    };
+
+    if (raster.sources.length > 1) {
+      attributes.srcset = raster.sources.map(source => `${source.localPath} ${source.scale}x`).join(', ');
+    }
+
+    return { element: { tag: 'img', attributes, children: [] }, styles, children: [] };
+  }
+
+  // The node laid out as its axis-aligned bounding box, sharing its center
+  private boundingBoxOf(node: ParsedNode): ParsedNode {
+    const { position, width = 0, height = 0 } = node.layout;
+    if (!position) {
+      return node;
+    }
+
+    return {
+      ...node,
+      layout: {
+        ...node.layout,
+        rotation: undefined,
+        width: node.bounds.width,
+        height: node.bounds.height,
+        position: {
+          x: position.x + (width - node.bounds.width) / 2,
+          y: position.y + (height - node.bounds.height) / 2,
+        },
+      },
+    };
+  }
+
+  private placementStyles(node: ParsedNode, parentNode?: ParsedNode): CSSProperties {
+    return {
+      ...this.layoutEngine.generateLayoutCSS(node, parentNode),
+      ...this.styleMapper.mapOpacity(node.styles.opacity),
+      ...this.styleMapper.mapBlendMode(node.styles.blendMode),
+    };
+  }
+
+  private applyStyleReferences(node: ParsedNode, element: HTMLElement, styles: CSSProperties): void {
+    const refs = node.styles.styleRefs;
+    if (!refs) {
+      return;
+    }
+
+    if (refs.fill) {
+      const name = sanitizeClassName(refs.fill.name);
+      if (node.type === 'TEXT') {
+        this.replaceWithVariable(styles, 'color', `--color-${name}`);
+      } else if (styles.backgroundColor !== undefined) {
+        this.replaceWithVariable(styles, 'backgroundColor', `--color-${name}`);
+      } else if (styles.background !== undefined) {
+        this.replaceWithVariable(styles, 'background', `--fill-${name}`);
+      }
+    }
+
+    if (refs.stroke) {
+      const variable = `--color-${sanitizeClassName(refs.stroke.name)}`;
+      for (const property of ['border', 'outline']) {
+        const value = styles[property];
+        // Strokes are emitted as "<width>px solid <color>"
+        const match = typeof value === 'string' ? value.match(/^(\S+ solid )(.+)$/) : null;
+        if (match) {
+          this.useVariable(variable, match[2], () => {
+            styles[property] = `${match[1]}var(${variable})`;
+          });
+        }
+      }
+    }
+
+    if (refs.effect) {
+      this.replaceWithVariable(styles, 'boxShadow', `--shadow-${sanitizeClassName(refs.effect.name)}`);
+    }
+
+    if (refs.text) {
+      this.applyTextStyle(element, styles, `text-${sanitizeClassName(refs.text.name)}`);
+    }
+  }
+
+  private replaceWithVariable(styles: CSSProperties, property: string, variable: string): void {
+    const value = styles[property];
+    if (value !== undefined) {
+      this.useVariable(variable, String(value), () => {
+        styles[property] = `var(${variable})`;
+      });
+    }
+  }
+
+  // Swaps in the variable once its value is settled, if this layer's value matches it
+  private useVariable(variable: string, value: string, substitute: () => void): void {
+    this.variableUses.set(variable, [...(this.variableUses.get(variable) || []), { value, substitute }]);
+  }
+
+  private applyTextStyle(element: HTMLElement, styles: CSSProperties, className: string): void {
+    this.textStyleUses.set(className, [
+      ...(this.textStyleUses.get(className) || []),
+      { styles, typography: this.typography(styles) },
+    ]);
+    element.attributes.class = className;
+  }
+
+  /**
+   * Picks the value of each shared style: a variable of the same name, else
+   * the style's definition, else the value most of its layers use. Layers
+   * that differ (a local override) keep their own values and are reported.
+   */
+  private settleSharedStyles(): void {
+    const defined = this.definedStyleValues();
+
+    for (const [variable, uses] of this.variableUses) {
+      const value = this.tokens.variables[variable] ?? defined.variables[variable] ?? this.mostCommon(uses.map(use => use.value));
+      this.tokens.variables[variable] = value;
+
+      const differing = uses.filter(use => use.value !== value);
+      for (const use of uses) {
+        if (use.value === value) {
+          use.substitute();
+        }
+      }
+      if (differing.length > 0) {
+        this.warnings.push(
+          `Style ${variable} is ${value}, but ${differing.length} of ${uses.length} layers using it differ; they keep their own values`
+        );
+      }
+    }
+
+    for (const [className, uses] of this.textStyleUses) {
+      const keys = uses.map(use => JSON.stringify(use.typography));
+      const textStyle = defined.textStyles[className] ?? uses[keys.indexOf(this.mostCommon(keys))].typography;
+      this.tokens.textStyles[className] = textStyle;
+
+      // Drop what the class already provides; overrides stay on the node's own rule
+      let differing = 0;
+      for (const { styles, typography } of uses) {
+        if (JSON.stringify(typography) !== JSON.stringify(textStyle)) {
+          differing++;
+        }
+        for (const [property, value] of Object.entries(textStyle)) {
+          if (styles[property] === value) {
+            delete styles[property];
+          }
+        }
+      }
+      if (differing > 0) {
+        this.warnings.push(
+          `Text style .${className} differs on ${differing} of ${uses.length} layers using it; they override it in their own rules`
+        );
+      }
+    }
+  }
+
+  // Token values the style definitions give, by custom property and class name
+  private definedStyleValues(): Pick<DesignTokens, 'variables' | 'textStyles'> {
+    const values: Pick<DesignTokens, 'variables' | 'textStyles'> = { variables: {}, textStyles: {} };
+
+    for (const definition of Object.values(this.styleDefinitions)) {
+      const name = sanitizeClassName(definition.name);
+      if (definition.fills) {
+        const { backgroundColor, background } = this.styleMapper.mapFillsToCSS(definition.fills);
+        if (backgroundColor !== undefined) values.variables[`--color-${name}`] = String(backgroundColor);
+        if (background !== undefined) values.variables[`--fill-${name}`] = String(background);
+      }
+      if (definition.effects) {
+        const { boxShadow } = this.styleMapper.mapEffectsToCSS(definition.effects);
+        if (boxShadow !== undefined) values.variables[`--shadow-${name}`] = String(boxShadow);
+      }
+      if (definition.textStyle) {
+        values.textStyles[`text-${name}`] = this.typography(this.styleMapper.mapTypographyToCSS(definition.textStyle));
+      }
+    }
+
+    return values;
+  }
+
+  // The declarations a shared text style owns, in a fixed order
+  private typography(styles: CSSProperties): CSSProperties {
+    const typography: CSSProperties = {};
+    for (const property of TYPOGRAPHY_PROPERTIES) {
+      if (styles[property] !== undefined) {
+        typography[property] = styles[property];
+      }
+    }
+    return typography;
+  }
+
+  // The value most layers use; ties go to the first one seen
+  private mostCommon(values: string[]): string {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+  }
+
+  /**
+   * Inline elements for styled text runs. A run declares only what it
+   * changes, so the paragraph's rule and text style class supply the rest.
+   */
+  private inlineRuns(node: ParsedNode): (HTMLElement | string)[] {
+    const base = node.styles.textStyle;
+    const baseCSS = this.textCSS(base, node.styles.fills);
+
+    return (node.textRuns || []).map((run, index) => {
+      if (!run.override) {
+        return run.characters;
+      }
+
+      const { fills, ...override } = run.override;
+      const css = this.textCSS({ ...base, ...override } as TextStyle, fills || node.styles.fills);
+      const styles: CSSProperties = {};
+      for (const property of new Set([...Object.keys(baseCSS), ...Object.keys(css)])) {
+        // Box, alignment and indent properties belong to the paragraph
+        if (!INLINE_PROPERTIES.includes(property)) continue;
+        const value = css[property] ?? INLINE_RESETS[property];
+        if (value !== undefined && value !== baseCSS[property]) {
+          styles[property] = value;
+        }
+      }
+
+      const tag = this.runTag(override, base);
+      if (tag === 'span' && Object.keys(styles).length === 0) {
+        return run.characters;
+      }
+
+      const attributes: Record<string, string> = { id: `${node.id}-run-${index}`, 'data-name': tag === 'a' ? 'link' : tag };
+      if (tag === 'a') {
+        Object.assign(attributes, this.linkAttributes(override.hyperlink));
+      }
+      return { tag, attributes, children: [run.characters], styles };
+    });
+  }
+
+  /**
+   * Paragraph spacing has no CSS property, so spaced paragraphs become
+   * blocks of their own. A text box that is a flex container for vertical
+   * alignment gets its inline content wrapped, or each run would become a
+   * separate flex item.
+   */
+  private layoutTextContent(node: ParsedNode, element: HTMLElement, styles: CSSProperties): void {
+    const spacing = node.styles.textStyle?.paragraphSpacing || 0;
+
+    if (spacing > 0 && node.textContent?.includes('\n')) {
+      const content = element.children.length > 0 ? element.children : [node.textContent];
+      const paragraphs = this.splitLines(content);
+      element.children = paragraphs.map((children, index): HTMLElement => {
+        const paragraphStyles: CSSProperties = { display: 'block' };
+        if (index < paragraphs.length - 1) {
+          paragraphStyles.marginBottom = `${spacing}px`;
+        }
+        return {
+          tag: 'span',
+          attributes: { id: `${node.id}-paragraph-${index}`, 'data-name': 'paragraph' },
+          // An empty paragraph still takes up a line
+          children: children.length > 0 ? children : ['\u00a0'],
+          styles: paragraphStyles,
+        };
+      });
+    }
+
+    if (styles.display === 'flex' && element.children.length > 0) {
+      element.children = [{
+        tag: 'span',
+        attributes: { id: `${node.id}-content`, 'data-name': 'content' },
+        children: element.children,
+      }];
+    }
+  }
+
+  // Splits inline content at line breaks; an element spanning a break is cloned on both sides
+  private splitLines(content: (HTMLElement | string)[]): (HTMLElement | string)[][] {
+    const lines: (HTMLElement | string)[][] = [[]];
+
+    for (const item of content) {
+      const parts: (HTMLElement | string)[] = typeof item === 'string'
+        ? item.split('\n')
+        : this.splitLines(item.children).map(children => ({ ...item, children }));
+
+      parts.forEach((part, index) => {
+        if (index > 0) {
+          lines.push([]);
+        }
+        if (typeof part === 'string' ? part !== '' : part.children.length > 0) {
+          lines[lines.length - 1].push(part);
+        }
+      });
+    }
+
+    return lines;
+  }
+
+  private runTag(override: TextStyleOverride, base?: TextStyle): string {
+    // Anchors don't nest, so a fully linked paragraph keeps its runs unlinked
+    if (this.linkAttributes(override.hyperlink) && !this.linkAttributes(base?.hyperlink)) {
+      return 'a';
+    }
+    if ((override.fontWeight || 0) >= BOLD_WEIGHT && (base?.fontWeight || 400) < BOLD_WEIGHT) {
+      return 'strong';
+    }
+    if (override.italic && !base?.italic) {
+      return 'em';
+    }
+    return 'span';
+  }
+
+  /**
+   * URLs become an href, rewritten by the longest matching prefix. Node
+   * links only name their target here; HTMLGenerator knows which document
+   * the target lands in and resolves them.
+   */
+  private linkAttributes(hyperlink?: Hyperlink): Record<string, string> | null {
+    if (hyperlink?.type === 'URL' && hyperlink.url) {
+      return { href: this.rewriteLink(hyperlink.url) };
+    }
+    if (hyperlink?.type === 'NODE' && hyperlink.nodeID) {
+      return { 'data-link-node': hyperlink.nodeID };
+    }
+    return null;
+  }
+
+  private rewriteLink(url: string): string {
+    const prefix = Object.keys(this.linkRewrites)
+      .filter(candidate => url.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix === undefined ? url : this.linkRewrites[prefix] + url.slice(prefix.length);
+  }
+
+  private textCSS(style: TextStyle | undefined, fills: Fill[]): CSSProperties {
+    const css = this.styleMapper.mapTypographyToCSS(style);
+    const color = this.textColor(fills);
+    if (color) {
+      css.color = color;
+    }
+    return css;
+  }
+
+  private textColor(fills: Fill[]): string | undefined {
+    const [firstFill] = fills || [];
+    if (firstFill?.type === 'SOLID' && firstFill.color) {
+      const { r, g, b, a } = firstFill.color;
+      const opacity = firstFill.opacity ?? 1;
+      return this.rgbaToCSS(r, g, b, a * opacity);
+    }
+    return undefined;
+  }
+
   private rgbaToCSS(r: number, g: number, b: number, a: number): string {
     const red = Math.round(r * 255);
     const green = Math.round(g * 255);
@@ -160,8 +740,9 @@ export class Transformer {
       case 'TEXT':
         return this.determineTextTag(node);
       case 'FRAME':
-        return this.determineFrameTag(node);
       case 'INSTANCE':
+      case 'COMPONENT':
+      case 'COMPONENT_SET':
         return this.determineFrameTag(node);
       case 'GROUP':
         return 'div';
@@ -169,8 +750,15 @@ export class Transformer {
       case 'ELLIPSE':
         return 'div';
       case 'VECTOR':
-        return 'svg';
+      case 'BOOLEAN_OPERATION':
+        // Vectors with path geometry are built as SVG; without it only the box is left
+        return 'div';
+      case 'TABLE':
+        return 'table';
+      case 'TABLE_CELL':
+        return 'td';
       case 'CANVAS':
+      case 'SECTION':
         return 'section';
       case 'DOCUMENT':
         return 'main';
@@ -181,6 +769,10 @@ export class Transformer {
 
   private determineTextTag(node: ParsedNode): string {
     const name = node.name.toLowerCase();
+
+    if (this.linkAttributes(node.styles.textStyle?.hyperlink)) {
+      return 'a';
+    }
     
     // Check for input field patterns
     if (name.includes('input') || name.includes('field') || name.includes('textbox')) {
@@ -0,0 +1,162 @@
+import type { FigmaLocalVariables, FigmaVariable, VariableValue, RGBA } from '../types/figma.js';
+import type { VariableTheme } from '../types/internal.js';
+import { rgbaToCSS, sanitizeClassName } from '../utils/helpers.js';
+import { logger } from '../utils/logger.js';
+
+export type VariableKind = 'color' | 'length' | 'number' | 'percent' | 'string';
+
+export interface VariableTokens {
+  // Default mode of every collection
+  root: Record<string, string>;
+  themes: VariableTheme[];
+}
+
+/**
+ * Turns a file's local variables into CSS custom properties. Each
+ * variable gets one property name; the default mode of its collection
+ * goes into :root and every other mode becomes a [data-theme] block.
+ * Aliases stay aliases (var(--other)) so a theme switch flows through.
+ */
+export class VariableResolver {
+  private names = new Map<string, string>();
+  private reportedMissing = new Set<string>();
+
+  constructor(private data: FigmaLocalVariables) {
+    const used = new Set<string>();
+
+    for (const variable of Object.values(data.variables)) {
+      if (!this.kindOf(variable)) continue;
+
+      const collection = data.variableCollections[variable.variableCollectionId];
+      let name = `--${sanitizeClassName(variable.name) || 'variable'}`;
+
+      // Same name in two collections (e.g. "primary" in Brand A and Brand B)
+      if (used.has(name) && collection) {
+        name = `--${sanitizeClassName(collection.name)}-${name.slice(2)}`;
+      }
+      const base = name;
+      for (let suffix = 2; used.has(name); suffix++) {
+        name = `${base}-${suffix}`;
+      }
+
+      used.add(name);
+      this.names.set(variable.id, name);
+    }
+  }
+
+  /**
+   * var() reference for a bound variable, or null when the variable is
+   * unknown or can't stand in for a value of the given kind.
+   */
+  reference(variableId: string, kind: VariableKind): string | null {
+    const name = this.names.get(variableId);
+    if (!name) {
+      if (!this.reportedMissing.has(variableId)) {
+        this.reportedMissing.add(variableId);
+        logger.warn(`Variable ${variableId} is not defined in this file; using its resolved value instead`);
+      }
+      return null;
+    }
+
+    const variable = this.data.variables[variableId];
+    if (this.kindOf(variable) !== kind) {
+      logger.debug(`Variable "${variable.name}" can't be used as a ${kind}; using its resolved value`);
+      return null;
+    }
+
+    return `var(${name})`;
+  }
+
+  getTokens(): VariableTokens {
+    const root: Record<string, string> = {};
+    const themes = new Map<string, VariableTheme>();
+
+    const themeFor = (selector: string, mediaQuery?: string): VariableTheme => {
+      const key = `${mediaQuery || ''}|${selector}`;
+      if (!themes.has(key)) {
+        themes.set(key, { selector, mediaQuery, variables: {} });
+      }
+      return themes.get(key)!;
+    };
+
+    for (const collection of Object.values(this.data.variableCollections)) {
+      const variables = collection.variableIds
+        .map(id => this.data.variables[id])
+        .filter(variable => variable && this.names.has(variable.id));
+
+      const defaultMode = collection.modes.find(mode => mode.modeId === collection.defaultModeId);
+      const defaultIsDark = /dark/i.test(defaultMode?.name || '');
+
+      for (const mode of collection.modes) {
+        const values: Record<string, string> = {};
+        for (const variable of variables) {
+          const value = this.formatValue(variable, variable.valuesByMode[mode.modeId]);
+          if (value !== null) {
+            values[this.names.get(variable.id)!] = value;
+          }
+        }
+
+        if (mode.modeId === collection.defaultModeId) {
+          Object.assign(root, values);
+          continue;
+        }
+
+        const themeName = sanitizeClassName(mode.name) || mode.modeId;
+        Object.assign(themeFor(`[data-theme~="${themeName}"]`).variables, values);
+
+        // A dark mode also follows the OS setting unless a theme is picked explicitly
+        if (/dark/i.test(mode.name) && !defaultIsDark) {
+          Object.assign(themeFor(':root:not([data-theme])', '(prefers-color-scheme: dark)').variables, values);
+        }
+      }
+    }
+
+    return { root, themes: [...themes.values()] };
+  }
+
+  private kindOf(variable: FigmaVariable): VariableKind | null {
+    switch (variable.resolvedType) {
+      case 'COLOR':
+        return 'color';
+      case 'STRING':
+        return 'string';
+      case 'FLOAT': {
+        const scopes = variable.scopes || [];
+        if (scopes.length > 0 && scopes.every(scope => scope === 'OPACITY')) return 'percent';
+        if (scopes.length > 0 && scopes.every(scope => scope === 'FONT_WEIGHT')) return 'number';
+        return 'length';
+      }
+      default:
+        // Booleans toggle visibility in Figma; CSS has no equivalent value
+        return null;
+    }
+  }
+
+  private formatValue(variable: FigmaVariable, value: VariableValue | undefined): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    if (typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+      const target = this.names.get(value.id);
+      return target ? `var(${target})` : null;
+    }
+
+    switch (this.kindOf(variable)) {
+      case 'color': {
+        const { r, g, b, a } = value as RGBA;
+        return rgbaToCSS(r, g, b, a ?? 1);
+      }
+      case 'string':
+        return `"${String(value).replace(/"/g, '\\"')}"`;
+      case 'percent':
+        return `${Math.round(Number(value) * 100) / 100}%`;
+      case 'number':
+        return String(Math.round(Number(value) * 100) / 100);
+      case 'length':
+        return `${Math.round(Number(value) * 100) / 100}px`;
+      default:
+        return null;
+    }
+  }
+}
@@ -11,23 +11,113 @@ export interface FigmaFile {
   version: string;
 }
 
+export interface FigmaVersion {
+  id: string;
+  created_at: string;
+  label: string | null;
+  description: string | null;
+  user: {
+    id: string;
+    handle: string;
+    img_url?: string;
+  };
+}
+
+export interface FigmaVersionsResponse {
+  versions: FigmaVersion[];
+  pagination?: {
+    prev_page?: string;
+    next_page?: string;
+  };
+}
+
+export interface FigmaProject {
+  id: string;
+  name: string;
+}
+
+export interface FigmaTeamProjectsResponse {
+  name: string;
+  projects: FigmaProject[];
+}
+
+export interface FigmaProjectFile {
+  key: string;
+  name: string;
+  thumbnail_url?: string;
+  last_modified: string;
+}
+
+export interface FigmaProjectFilesResponse {
+  name: string;
+  files: FigmaProjectFile[];
+}
+
+export interface FigmaNodesResponse {
+  name: string;
+  lastModified: string;
+  thumbnailUrl: string;
+  version: string;
+  schemaVersion?: number;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponent>;
+    styles: Record<string, FigmaStyle>;
+    schemaVersion?: number;
+  } | null>;
+}
+
 export interface FigmaNode {
   id: string;
   name: string;
   type: NodeType;
   children?: FigmaNode[];
+  // Axis-aligned box around the node after rotation, in page coordinates
   absoluteBoundingBox?: BoundingBox;
+  // Unrotated width and height; with relativeTransform only sent with geometry=paths
+  size?: { x: number; y: number };
+  // Position and rotation relative to the parent (for children of groups, the group's parent)
+  relativeTransform?: Transform;
+  // Radians, counterclockwise
+  rotation?: number;
   fills?: Fill[];
   strokes?: Stroke[];
   effects?: Effect[];
   opacity?: number;
   blendMode?: BlendMode;
   cornerRadius?: number | number[];
+  // Applies to every stroke paint of the node
+  strokeWeight?: number;
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  arcData?: ArcData;
+  booleanOperation?: 'UNION' | 'INTERSECT' | 'SUBTRACT' | 'EXCLUDE';
   layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
   primaryAxisSizing?: 'FIXED' | 'AUTO';
   counterAxisSizing?: 'FIXED' | 'AUTO';
   primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
   counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  // Gap between wrapped lines
+  counterAxisSpacing?: number;
+  // How wrapped lines share the counter axis
+  counterAxisAlignContent?: 'AUTO' | 'SPACE_BETWEEN';
+  // ABSOLUTE children of an auto-layout frame are placed outside its flow
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  // How the node sizes itself inside (or as) an auto-layout frame
+  layoutSizingHorizontal?: LayoutSizing;
+  layoutSizingVertical?: LayoutSizing;
+  // Older files: grow along the parent's direction, stretch across it
+  layoutGrow?: number;
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
+  minWidth?: number | null;
+  maxWidth?: number | null;
+  minHeight?: number | null;
+  maxHeight?: number | null;
+  layoutGrids?: LayoutGrid[];
+  // First child on top instead of the last
+  itemReverseZIndex?: boolean;
+  // Stroke widths count towards the padding of an auto-layout frame
+  strokesIncludedInLayout?: boolean;
   paddingLeft?: number;
   paddingRight?: number;
   paddingTop?: number;
@@ -36,19 +126,99 @@ export interface FigmaNode {
   constraints?: Constraints;
   characters?: string;
   style?: TextStyle;
+  // Override table ID per character (0 = the node's own style); may be shorter than characters
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, TextStyleOverride>;
+  // Shared style IDs applied to this node, keyed by what they style
+  styles?: Partial<Record<StyleSlot, string>>;
+  // Variables bound to node properties; typography bindings are per text range
+  boundVariables?: Record<string, VariableAlias | VariableAlias[]>;
+  // Only present when the file is requested with geometry=paths
+  fillGeometry?: VectorPath[];
+  strokeGeometry?: VectorPath[];
+  // Set when a designer marked the node for export in Figma
+  exportSettings?: ExportSetting[];
+}
+
+export interface ExportSetting {
+  suffix: string;
+  format: 'JPG' | 'PNG' | 'SVG' | 'PDF';
+  constraint: { type: 'SCALE' | 'WIDTH' | 'HEIGHT'; value: number };
 }
 
+export interface VectorPath {
+  // SVG path data in the node's own coordinate space
+  path: string;
+  windingRule: 'NONZERO' | 'EVENODD' | 'NONE';
+}
+
+export interface VariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+export type StyleSlot = 'fill' | 'fills' | 'stroke' | 'strokes' | 'text' | 'effect' | 'grid';
+
 export type NodeType =
   | 'DOCUMENT'
   | 'CANVAS'
   | 'FRAME'
   | 'GROUP'
+  | 'SECTION'
+  | 'COMPONENT'
+  | 'COMPONENT_SET'
+  | 'INSTANCE'
   | 'RECTANGLE'
   | 'ELLIPSE'
-  | 'TEXT'
+  | 'LINE'
+  | 'STAR'
+  // The plugin API calls this POLYGON; the parser accepts both
+  | 'REGULAR_POLYGON'
   | 'VECTOR'
-  | 'INSTANCE'
-  | 'COMPONENT';
+  | 'BOOLEAN_OPERATION'
+  | 'TEXT'
+  | 'TABLE'
+  | 'TABLE_CELL'
+  // Export regions; never rendered
+  | 'SLICE'
+  // FigJam
+  | 'STICKY'
+  | 'SHAPE_WITH_TEXT'
+  | 'CONNECTOR'
+  | 'STAMP'
+  | 'WASHI_TAPE'
+  | 'HIGHLIGHT'
+  | 'CODE_BLOCK'
+  | 'WIDGET'
+  | 'EMBED'
+  | 'LINK_UNFURL';
+
+// Top two rows of a 2D affine matrix: [[a, c, tx], [b, d, ty]]
+export type Transform = [[number, number, number], [number, number, number]];
+
+// Partial ellipses (arcs, pies, donuts); angles in radians
+export interface ArcData {
+  startingAngle: number;
+  endingAngle: number;
+  // 0 to 1, relative to the outer radius
+  innerRadius: number;
+}
+
+// Column, row or square grid drawn over a frame
+export interface LayoutGrid {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  // Track width (or height) when not stretched; cell size for GRID
+  sectionSize: number;
+  visible?: boolean;
+  color?: RGBA;
+  alignment?: 'MIN' | 'MAX' | 'STRETCH' | 'CENTER';
+  gutterSize?: number;
+  // Margin from the aligned edge
+  offset?: number;
+  count?: number;
+}
 
 export interface BoundingBox {
   x: number;
@@ -61,9 +231,12 @@ export interface Fill {
   type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'IMAGE';
   color?: RGBA;
   gradientStops?: GradientStop[];
+  // Start, end and width handles, normalized to the node's bounding box
+  gradientHandlePositions?: Array<{ x: number; y: number }>;
   imageRef?: string;
   opacity?: number;
   visible?: boolean;
+  boundVariables?: { color?: VariableAlias };
 }
 
 export interface RGBA {
@@ -84,6 +257,7 @@ export interface Stroke {
   weight?: number;
   align?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
   visible?: boolean;
+  boundVariables?: { color?: VariableAlias };
 }
 
 export interface Effect {
@@ -123,6 +297,28 @@ export interface TextStyle {
   letterSpacing?: number;
   textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
   textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  italic?: boolean;
+  hyperlink?: Hyperlink;
+  textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE' | 'SMALL_CAPS' | 'SMALL_CAPS_FORCED';
+  // How the text box follows its content; TRUNCATE is the legacy fixed box with an ellipsis
+  textAutoResize?: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';
+  textTruncation?: 'DISABLED' | 'ENDING';
+  // Lines shown before truncating; only meaningful with textTruncation ENDING
+  maxLines?: number;
+  paragraphSpacing?: number;
+  paragraphIndent?: number;
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+}
+
+// Only the properties a range of characters changes; fills replace the node's text fills
+export type TextStyleOverride = Partial<TextStyle> & {
+  fills?: Fill[];
+};
+
+export interface Hyperlink {
+  type: 'URL' | 'NODE';
+  url?: string;
+  nodeID?: string;
 }
 
 export interface Constraints {
@@ -139,6 +335,64 @@ export interface FigmaComponent {
 export interface FigmaStyle {
   key: string;
   name: string;
-  styleType: string;
+  styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID' | string;
   description: string;
 }
+
+// Entry from GET /files/:key/styles (published styles)
+export interface FigmaPublishedStyle {
+  key: string;
+  file_key: string;
+  node_id: string;
+  style_type: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  name: string;
+  description: string;
+}
+
+export type VariableValue = boolean | number | string | RGBA | VariableAlias;
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: Record<string, VariableValue>;
+  scopes?: string[];
+  remote?: boolean;
+  description?: string;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId: string;
+  variableIds: string[];
+  remote?: boolean;
+}
+
+// meta of GET /files/:key/variables/local
+export interface FigmaLocalVariables {
+  variables: Record<string, FigmaVariable>;
+  variableCollections: Record<string, FigmaVariableCollection>;
+}
+
+export type WebhookEventType =
+  | 'PING'
+  | 'FILE_UPDATE'
+  | 'FILE_VERSION_UPDATE'
+  | 'FILE_DELETE'
+  | 'LIBRARY_PUBLISH'
+  | 'FILE_COMMENT';
+
+// Body of a Webhooks V2 request; event-specific fields are omitted
+export interface FigmaWebhookPayload {
+  event_type: WebhookEventType;
+  passcode: string;
+  webhook_id?: string;
+  timestamp?: string;
+  file_key?: string;
+  file_name?: string;
+}
@@ -1,6 +1,6 @@
 // Internal data structures
 
-import type { NodeType, BoundingBox, Fill, Stroke, Effect, BlendMode, TextStyle } from './figma.js';
+import type { NodeType, BoundingBox, Fill, Stroke, Effect, BlendMode, TextStyle, TextStyleOverride, VectorPath, ArcData, LayoutSizing, LayoutGrid } from './figma.js';
 
 export interface ParsedNode {
   id: string;
@@ -11,8 +11,24 @@ export interface ParsedNode {
   styles: StyleProperties;
   layout: LayoutProperties;
   textContent?: string;
+  // Only set when part of the text is styled differently from the rest
+  textRuns?: TextRun[];
   componentName?: string;
   componentType?: string;
+  geometry?: VectorGeometry;
+  // Only set for ellipses that are not a full circle
+  arc?: ArcData;
+}
+
+export interface TextRun {
+  characters: string;
+  // Absent for runs in the node's own style
+  override?: TextStyleOverride;
+}
+
+export interface VectorGeometry {
+  fill: VectorPath[];
+  stroke: VectorPath[];
 }
 
 export interface StyleProperties {
@@ -23,18 +39,103 @@ export interface StyleProperties {
   blendMode: BlendMode;
   cornerRadius?: number | number[];
   textStyle?: TextStyle;
+  styleRefs?: StyleReferences;
+  boundVariables?: VariableBindings;
+}
+
+export type BindableProperty =
+  | 'fill'
+  | 'stroke'
+  | 'cornerRadius'
+  | 'paddingTop'
+  | 'paddingRight'
+  | 'paddingBottom'
+  | 'paddingLeft'
+  | 'itemSpacing'
+  | 'opacity'
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'letterSpacing';
+
+// Variable IDs bound to node properties
+export type VariableBindings = Partial<Record<BindableProperty, string>>;
+
+export interface StyleReference {
+  id: string;
+  name: string;
+  styleType: string;
+}
+
+export interface StyleReferences {
+  fill?: StyleReference;
+  stroke?: StyleReference;
+  text?: StyleReference;
+  effect?: StyleReference;
+}
+
+// A shared style's own values, read from its definition node
+export interface StyleDefinition {
+  name: string;
+  styleType: string;
+  fills?: Fill[];
+  effects?: Effect[];
+  textStyle?: TextStyle;
+}
+
+export interface DesignTokens {
+  // Custom property name (with leading --) to CSS value
+  variables: Record<string, string>;
+  // Typography class name to its declarations
+  textStyles: Record<string, CSSProperties>;
+  // Non-default variable modes, each overriding some of the variables
+  themes: VariableTheme[];
+}
+
+export interface VariableTheme {
+  selector: string;
+  // Wraps the block, e.g. a prefers-color-scheme query for a dark mode
+  mediaQuery?: string;
+  variables: Record<string, string>;
 }
 
 export interface LayoutProperties {
   strategy: LayoutStrategy;
+  // Unrotated box; for rotated nodes and their contents the position is
+  // in the parent's rotated frame, so parent/child offsets stay subtractions
   position?: { x: number; y: number };
   width?: number;
   height?: number;
+  // Clockwise degrees relative to the parent element, about the box center
+  rotation?: number;
   flexDirection?: 'row' | 'column';
   gap?: number;
   padding?: Spacing;
   alignItems?: string;
   justifyContent?: string;
+  // Auto-layout wrapping; counterAxisGap separates the wrapped lines
+  flexWrap?: boolean;
+  counterAxisGap?: number;
+  alignContent?: string;
+  // Column grid of a Grid-strategy frame; children are placed into its spans
+  columnGrid?: LayoutGrid;
+  // Placed at its position instead of in the parent's flow
+  absolutePositioned?: boolean;
+  // Offsets from the flow position, for inferred layouts
+  margin?: Spacing;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  // Fill/Hug/Fixed per axis; left out when both are fixed
+  sizing?: { horizontal: LayoutSizing; vertical: LayoutSizing };
+  // Children stack first-on-top
+  reverseZIndex?: boolean;
+  // Position in Figma's paint order across the document; higher paints on top
+  stackOrder?: number;
+  // Only set for auto-layout frames
+  strokesIncludedInLayout?: boolean;
   constraints?: {
     horizontal: string;
     vertical: string;
@@ -64,8 +165,13 @@ export interface TransformedNode {
 export interface HTMLElement {
   tag: string;
   attributes: Record<string, string>;
+  // Inline content such as styled text runs; block children are TransformedNodes
   children: (HTMLElement | string)[];
   textContent?: string;
+  // Declarations of an inline element; block elements keep theirs on the TransformedNode
+  styles?: CSSProperties;
+  // Trusted markup emitted as-is, e.g. the paths of an inline SVG
+  rawContent?: string;
 }
 
 export interface CSSProperties {
@@ -78,10 +184,79 @@ export interface CSSRule {
 }
 
 export interface Asset {
+  // imageRef for image fills, node ID for vectors
   id: string;
   url: string;
   localPath: string;
-  format: 'png' | 'jpg' | 'svg';
+  format: 'png' | 'jpg' | 'gif' | 'webp' | 'svg' | 'pdf';
+  // Pixel density of a rendered raster, e.g. 2 for @2x
+  scale?: number;
+  data?: Buffer;
+}
+
+export type RasterFormat = 'png' | 'jpg' | 'svg' | 'pdf';
+
+export interface RasterOptions {
+  format: RasterFormat;
+  // One rendition per scale; several produce a srcset
+  scales: number[];
+}
+
+// Render URLs from the images endpoint, per scale and node ID
+export interface RenderedImages {
+  format: RasterFormat;
+  urls: Record<number, Record<string, string>>;
+}
+
+// A node exported as a rendered image, at one or more densities
+export interface RasterImage {
+  format: RasterFormat;
+  width: number;
+  height: number;
+  sources: Array<{ scale: number; localPath: string }>;
+}
+
+// A vector or icon node exported as SVG
+export interface VectorGraphic {
+  width: number;
+  height: number;
+  // Markup inside the <svg> element, for inlining
+  body: string;
+  localPath: string;
+}
+
+export type PageMode = 'single' | 'pages' | 'frames';
+
+export type SVGMode = 'inline' | 'file';
+
+export interface ConversionOptions {
+  pageMode?: PageMode;
+  // Vector graphics as inline <svg> or as <img> referencing assets/*.svg
+  svgMode?: SVGMode;
+  // How nodes marked for export in Figma are rendered
+  raster?: RasterOptions;
+  // URL prefix → replacement for text hyperlinks, e.g. a prototype domain → real routes
+  linkRewrites?: Record<string, string>;
+  version?: string;
+  nodeIds?: string[];
+}
+
+export interface ConversionManifest {
+  fileId: string;
+  fileName: string;
+  version: string;
+  versionPinned: boolean;
+  lastModified: string;
+  nodeIds: string[];
+  pageMode: PageMode;
+  pages: string[];
+  convertedAt: string;
+}
+
+export interface GeneratedPage {
+  fileName: string;
+  title: string;
+  html: string;
 }
 
 export interface ConversionResult {
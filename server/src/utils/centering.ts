@@ -0,0 +1,42 @@
+// Cross-axis centering rules shared by flow inference and layout CSS
+
+import type { ParsedNode } from '../types/internal.js';
+import { LayoutStrategy } from '../types/internal.js';
+
+export interface HorizontalCentering {
+  isCentered: boolean;
+  isDecorativeLine: boolean;
+  isDecorativeContainer: boolean;
+}
+
+/**
+ * Whether a column flex parent centers this child with align-self: it was
+ * drawn centered, or it is a decorative line or indicator. Inferred flow
+ * layouts leave the cross-axis offset of these children to this rule.
+ */
+export function centersInColumn(node: ParsedNode, parentNode: ParsedNode): boolean {
+  if (parentNode.layout.strategy !== LayoutStrategy.Flexbox || parentNode.layout.flexDirection !== 'column') {
+    return false;
+  }
+
+  const centering = horizontalCentering(node, parentNode);
+  return Boolean(centering && (centering.isCentered || centering.isDecorativeLine || centering.isDecorativeContainer));
+}
+
+export function horizontalCentering(node: ParsedNode, parentNode: ParsedNode): HorizontalCentering | undefined {
+  const { width, height, position } = node.layout;
+  const parentWidth = parentNode.layout.width;
+  if (!width || !height || !position || !parentNode.layout.position || !parentWidth) {
+    return undefined;
+  }
+
+  const relativeX = position.x - parentNode.layout.position.x;
+  return {
+    // Horizontally centered, within 5px
+    isCentered: Math.abs(relativeX - (parentWidth - width) / 2) < 5,
+    // A thin line of reasonable width
+    isDecorativeLine: height < 10 && width > 20 && width < parentWidth * 0.8,
+    // A container like the Home Indicator
+    isDecorativeContainer: height < 30 && node.name.toLowerCase().includes('indicator'),
+  };
+}
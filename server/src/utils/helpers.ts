@@ -1,5 +1,7 @@
 // Helper utilities
 
+import type { FigmaFile, FigmaNode } from '../types/figma.js';
+
 export function sanitizeClassName(name: string): string {
   return name
     .toLowerCase()
@@ -18,6 +20,27 @@ export function rgbaToCSS(r: number, g: number, b: number, a: number): string {
   return `rgba(${red}, ${green}, ${blue}, ${a})`;
 }
 
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
 export function extractFileId(input: string): string | null {
   // Handle direct file ID
   if (/^[a-zA-Z0-9]+$/.test(input)) {
@@ -28,3 +51,154 @@ export function extractFileId(input: string): string | null {
   const match = input.match(/figma\.com\/(?:file|design)\/([a-zA-Z0-9]+)/);
   return match ? match[1] : null;
 }
+
+/**
+ * Reads an exported document: a full GET /files response (or the trimmed
+ * /api/debug shape), a GET /files/:key/nodes response, or a bare DOCUMENT
+ * node. Anything else is null.
+ */
+export function normalizeFigmaFile(input: unknown): FigmaFile | null {
+  if (!isObject(input)) {
+    return null;
+  }
+
+  // A bare document node carries no file metadata
+  if (isDocumentNode(input)) {
+    return fileWith(input as unknown as FigmaNode, {});
+  }
+
+  if (isDocumentNode(input.document)) {
+    return fileWith(input.document as FigmaNode, input);
+  }
+
+  // The selected nodes, gathered into one document like a live selection
+  if (isObject(input.nodes)) {
+    const entries = Object.values(input.nodes).filter(isObject).filter(entry => isObject(entry.document));
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const merge = (key: 'components' | 'styles') =>
+      Object.assign({}, ...entries.map(entry => (isObject(entry[key]) ? entry[key] : {})));
+    return fileWith(buildSelectionDocument(entries.map(entry => entry.document as FigmaNode)), {
+      ...input,
+      components: merge('components'),
+      styles: merge('styles'),
+    });
+  }
+
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDocumentNode(value: unknown): boolean {
+  return isObject(value) && value.type === 'DOCUMENT';
+}
+
+// File fields an export may leave out get neutral defaults
+function fileWith(document: FigmaNode, metadata: Partial<Record<keyof FigmaFile, unknown>>): FigmaFile {
+  const text = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+  return {
+    document,
+    components: isObject(metadata.components) ? (metadata.components as FigmaFile['components']) : {},
+    schemaVersion: typeof metadata.schemaVersion === 'number' ? metadata.schemaVersion : 0,
+    styles: isObject(metadata.styles) ? (metadata.styles as FigmaFile['styles']) : {},
+    name: text(metadata.name, 'Untitled'),
+    lastModified: text(metadata.lastModified, ''),
+    thumbnailUrl: text(metadata.thumbnailUrl, ''),
+    version: text(metadata.version, ''),
+  };
+}
+
+export function extractNodeIds(input: string): string[] {
+  // Share links carry the selected frame as ?node-id=12-34 (or 12%3A34 in older links)
+  const match = input.match(/[?&]node-id=([^&#]+)/);
+  if (!match) {
+    return [];
+  }
+
+  let raw: string;
+  try {
+    raw = decodeURIComponent(match[1]);
+  } catch {
+    return [];
+  }
+
+  return normalizeNodeIds(raw.split(','));
+}
+
+export function normalizeNodeIds(ids: string[]): string[] {
+  // The REST API expects "12:34"; URLs use "12-34"
+  return ids
+    .map(id => id.trim())
+    .filter(id => id.length > 0)
+    .map(id => (id.includes(':') ? id : id.replace(/-/g, ':')));
+}
+
+export function buildSelectionDocument(nodes: FigmaNode[]): FigmaNode {
+  // Selected pages stay pages; loose frames are gathered onto one synthetic page
+  const pages = nodes.filter(node => node.type === 'CANVAS');
+  const frames = nodes.filter(node => node.type !== 'CANVAS');
+
+  if (frames.length > 0) {
+    pages.unshift({
+      id: 'selection',
+      name: 'Selection',
+      type: 'CANVAS',
+      children: frames,
+    });
+  }
+
+  return {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: pages,
+  };
+}
+
+export function findNodesById(root: FigmaNode, ids: string[]): { found: FigmaNode[]; missing: string[] } {
+  const wanted = new Set(ids);
+  const byId = new Map<string, FigmaNode>();
+
+  const visit = (node: FigmaNode) => {
+    if (wanted.has(node.id)) {
+      byId.set(node.id, node);
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+
+  return {
+    found: ids.filter(id => byId.has(id)).map(id => byId.get(id)!),
+    missing: ids.filter(id => !byId.has(id)),
+  };
+}
+
+/**
+ * Nodes marked for export that are rendered as images: leaves and graphics
+ * without text. Exported frames with text stay HTML, since designers mark
+ * whole screens for export too. Nothing inside a rendered node is listed.
+ */
+export function collectExportNodeIds(root: FigmaNode): string[] {
+  const ids: string[] = [];
+
+  const visit = (node: FigmaNode) => {
+    const exported = node.exportSettings && node.exportSettings.length > 0 && node.type !== 'DOCUMENT' && node.type !== 'CANVAS';
+    if (exported && !containsText(node)) {
+      ids.push(node.id);
+      return;
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+
+  return ids;
+}
+
+function containsText(node: FigmaNode): boolean {
+  return node.type === 'TEXT' || (node.children || []).some(containsText);
+}
@@ -0,0 +1,211 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { FigmaCredentials } from '../api/FigmaAPIClient.js';
+import type { ConversionOutput } from '../pipeline/ConversionPipeline.js';
+import type { FigmaWebhookPayload, WebhookEventType } from '../types/figma.js';
+import type { ConversionOptions } from '../types/internal.js';
+import { logger } from '../utils/logger.js';
+
+// Events that mean the converted output may be stale
+const RECONVERT_EVENTS = new Set<WebhookEventType>(['FILE_UPDATE', 'LIBRARY_PUBLISH']);
+
+// Session-backed watches keep the session so tokens are refreshed, not frozen
+export type WatchCredentials = FigmaCredentials | { type: 'session'; sessionId: string };
+
+export interface WatchedFile {
+  // Unguessable; names the watch in URLs
+  id: string;
+  fileId: string;
+  // Who registered the watch; only they can see or remove it
+  owner: string;
+  credentials: WatchCredentials;
+  options: ConversionOptions;
+  registeredAt: string;
+  lastConvertedAt?: string;
+  lastError?: string;
+}
+
+export interface WebhookArtifact {
+  watchId: string;
+  zip: Buffer;
+  warnings: string[];
+  convertedAt: string;
+  // Event type that caused the conversion, or 'convert' for the initial one
+  trigger: string;
+}
+
+export type Reconvert = (file: WatchedFile) => Promise<ConversionOutput>;
+
+export interface WebhookReceiverOptions {
+  // Shared secret set when the webhook was created; null disables the receiver
+  passcode: string | null;
+  // Quiet period after the last event before reconverting
+  debounceMs: number;
+  convert: Reconvert;
+}
+
+export type WebhookOutcome = 'rejected' | 'pong' | 'ignored' | 'scheduled';
+
+/**
+ * Reconverts watched files when Figma reports a change. Each owner's watch
+ * of a file converts separately, with that owner's credentials and options.
+ * Events for a watch are debounced so a burst (several saves, a library
+ * publish fanning out) produces one conversion; an event arriving while a
+ * conversion runs queues exactly one more. The latest ZIP per watch is
+ * kept in memory.
+ */
+export class WebhookReceiver {
+  private watched = new Map<string, WatchedFile>();
+  private artifacts = new Map<string, WebhookArtifact>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, Promise<void>>();
+  // Watches whose file changed again mid-conversion, with the latest event type
+  private rerun = new Map<string, string>();
+
+  constructor(private options: WebhookReceiverOptions) {}
+
+  static fromEnv(convert: Reconvert, env: NodeJS.ProcessEnv = process.env): WebhookReceiver {
+    const debounceMs = Number(env.FIGMA_WEBHOOK_DEBOUNCE_MS);
+    return new WebhookReceiver({
+      passcode: env.FIGMA_WEBHOOK_PASSCODE || null,
+      debounceMs: env.FIGMA_WEBHOOK_DEBOUNCE_MS !== undefined && debounceMs >= 0 ? debounceMs : 10 * 1000,
+      convert,
+    });
+  }
+
+  get enabled(): boolean {
+    return this.options.passcode !== null;
+  }
+
+  // Watching a file again replaces the owner's credentials and options but keeps the watch ID
+  watch(file: Omit<WatchedFile, 'id'>): WatchedFile {
+    const existing = this.getWatched(file.owner).find(candidate => candidate.fileId === file.fileId);
+    const watch: WatchedFile = { ...file, id: existing?.id || randomBytes(16).toString('hex') };
+    this.watched.set(watch.id, watch);
+    logger.info(`Watching ${file.fileId} for Figma webhook events`);
+    return watch;
+  }
+
+  unwatch(id: string): boolean {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+    this.rerun.delete(id);
+    this.artifacts.delete(id);
+    return this.watched.delete(id);
+  }
+
+  getWatched(owner: string): WatchedFile[] {
+    return [...this.watched.values()].filter(file => file.owner === owner);
+  }
+
+  // Another owner's watch is as good as missing
+  getWatch(id: string, owner: string): WatchedFile | undefined {
+    const file = this.watched.get(id);
+    return file?.owner === owner ? file : undefined;
+  }
+
+  getArtifact(id: string): WebhookArtifact | undefined {
+    return this.artifacts.get(id);
+  }
+
+  storeArtifact(id: string, output: ConversionOutput, trigger: string): void {
+    const convertedAt = new Date().toISOString();
+    this.artifacts.set(id, { watchId: id, zip: output.zip, warnings: output.warnings, convertedAt, trigger });
+
+    const file = this.watched.get(id);
+    if (file) {
+      file.lastConvertedAt = convertedAt;
+      file.lastError = undefined;
+    }
+  }
+
+  receive(payload: Partial<FigmaWebhookPayload>): WebhookOutcome {
+    if (!this.verify(payload.passcode)) {
+      logger.warn('Rejected Figma webhook with a missing or wrong passcode');
+      return 'rejected';
+    }
+
+    if (payload.event_type === 'PING') {
+      return 'pong';
+    }
+
+    const fileId = payload.file_key;
+    const watches = [...this.watched.values()].filter(file => file.fileId === fileId);
+    if (!payload.event_type || !RECONVERT_EVENTS.has(payload.event_type) || watches.length === 0) {
+      logger.debug(`Ignoring Figma webhook ${payload.event_type} for ${fileId || 'no file'}`);
+      return 'ignored';
+    }
+
+    for (const file of watches) {
+      this.schedule(file.id, payload.event_type);
+    }
+    return 'scheduled';
+  }
+
+  // Resolves once no reconversion is running; pending debounce timers don't count
+  async idle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values());
+    }
+  }
+
+  private verify(passcode: unknown): boolean {
+    if (!this.options.passcode || typeof passcode !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.options.passcode);
+    const actual = Buffer.from(passcode);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private schedule(id: string, trigger: string): void {
+    if (this.running.has(id)) {
+      this.rerun.set(id, trigger);
+      return;
+    }
+
+    const existing = this.timers.get(id);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.timers.set(id, setTimeout(() => {
+      this.timers.delete(id);
+      this.start(id, trigger);
+    }, this.options.debounceMs));
+  }
+
+  private start(id: string, trigger: string): void {
+    const run = this.reconvert(id, trigger).finally(() => {
+      this.running.delete(id);
+      const next = this.rerun.get(id);
+      if (next) {
+        this.rerun.delete(id);
+        this.schedule(id, next);
+      }
+    });
+    this.running.set(id, run);
+  }
+
+  private async reconvert(id: string, trigger: string): Promise<void> {
+    const file = this.watched.get(id);
+    if (!file) {
+      return;
+    }
+
+    try {
+      logger.info(`Reconverting ${file.fileId} after ${trigger}`);
+      const output = await this.options.convert(file);
+      // Unwatched or replaced while converting
+      if (this.watched.get(id) === file) {
+        this.storeArtifact(id, output, trigger);
+      }
+    } catch (error: any) {
+      logger.error(`Webhook reconversion of ${file.fileId} failed`, { error: error.message });
+      file.lastError = error.message;
+    }
+  }
+}
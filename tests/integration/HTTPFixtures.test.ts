@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HTTPFixtures, FixtureNotFoundError } from '../../server/src/api/HTTPFixtures.js';
+import { FigmaAPIClient } from '../../server/src/api/FigmaAPIClient.js';
+import { AssetManager } from '../../server/src/assets/AssetManager.js';
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Stands in for the network while recording
+function fakeNetwork(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  const url = axios.getUri(config);
+  const isImage = url.startsWith('https://s3.example.com/');
+  const data = isImage
+    ? PNG_HEADER
+    : JSON.stringify({
+        name: 'Recorded File',
+        version: '42',
+        lastModified: '2024-01-01T00:00:00Z',
+        document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [] },
+        images: { '1:2': 'https://s3.example.com/render.png?sig=abc' },
+      });
+
+  return Promise.resolve({ data, status: 200, statusText: 'OK', headers: { 'set-cookie': 'secret' }, config, request: {} });
+}
+
+describe('HTTPFixtures', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'figma-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function record(url: string, config: Record<string, any> = {}) {
+    const instance = axios.create({ adapter: fakeNetwork });
+    new HTTPFixtures({ mode: 'record', dir }).attach(instance);
+    return instance.get(url, config);
+  }
+
+  it('should replay recorded API responses through FigmaAPIClient', async () => {
+    await record('https://api.figma.com/v1/files/ABC123');
+    await record('https://api.figma.com/v1/images/ABC123', { params: { ids: '1:2', format: 'png', scale: 2 } });
+
+    const client = new FigmaAPIClient('unused', { fixtures: new HTTPFixtures({ mode: 'replay', dir }), cache: null });
+    const file = await client.getFile('ABC123');
+    const images = await client.getImageUrls('ABC123', ['1:2']);
+
+    expect(file.name).toBe('Recorded File');
+    expect(file.version).toBe('42');
+    expect(images['1:2']).toBe('https://s3.example.com/render.png?sig=abc');
+  });
+
+  it('should replay binary image downloads through AssetManager', async () => {
+    await record('https://s3.example.com/render.png?sig=abc', { responseType: 'arraybuffer' });
+
+    const assetManager = new AssetManager(new HTTPFixtures({ mode: 'replay', dir }));
+    const asset = await assetManager.downloadAsset('1:2', 'https://s3.example.com/render.png?sig=abc');
+
+    expect(asset.format).toBe('png');
+    expect(asset.localPath).toBe('assets/1:2.png');
+  });
+
+  it('should export a shared image fill once, by imageRef', async () => {
+    await record('https://s3.example.com/photo?sig=abc', { responseType: 'arraybuffer' });
+
+    const photoFill = { type: 'IMAGE', imageRef: 'f00d', visible: true };
+    const node = (id: string, children: any[] = []) =>
+      ({ id, name: id, type: 'RECTANGLE', styles: { fills: [photoFill] }, children }) as any;
+
+    const assetManager = new AssetManager(new HTTPFixtures({ mode: 'replay', dir }));
+    const assets = await assetManager.exportImages('ABC123', [node('1:1', [node('1:2')])], {
+      f00d: 'https://s3.example.com/photo?sig=abc',
+    });
+
+    expect(assets).toHaveLength(1);
+    expect(assets[0].localPath).toBe('assets/f00d.png');
+    expect(assets[0].data?.equals(PNG_HEADER)).toBe(true);
+    expect(assetManager.getImagePaths()).toEqual({ f00d: 'assets/f00d.png' });
+  });
+
+  it('should not write credentials and should fail loudly on unrecorded requests', async () => {
+    await record('https://api.figma.com/v1/files/ABC123');
+
+    const [fixtureFile] = await readdir(dir);
+    expect(fixtureFile).toMatch(/^get-files-ABC123-[0-9a-f]{12}\.json$/);
+
+    const fixture = JSON.parse(await readFile(path.join(dir, fixtureFile), 'utf8'));
+    expect(fixture.headers).not.toHaveProperty('set-cookie');
+
+    const instance = axios.create();
+    new HTTPFixtures({ mode: 'replay', dir }).attach(instance);
+    await expect(instance.get('https://api.figma.com/v1/files/OTHER')).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import express from 'express';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { HTTPFixtures } from '../../server/src/api/HTTPFixtures.js';
+
+const version = (id: string, label: string) => ({
+  id,
+  created_at: `2024-01-0${id}T00:00:00Z`,
+  label,
+  description: null,
+  user: { handle: 'designer' },
+});
+
+// Figma responses the routes replay, by URL
+const FIGMA_RESPONSES: Record<string, unknown> = {
+  'https://api.figma.com/v1/files/ABC123/versions': {
+    versions: [version('3', 'Release 3'), version('2', 'Release 2')],
+    pagination: { next_page: 'https://api.figma.com/v1/files/ABC123/versions?before=2' },
+  },
+  'https://api.figma.com/v1/files/ABC123/versions?before=2': {
+    versions: [version('1', 'Release 1')],
+    pagination: { prev_page: 'https://api.figma.com/v1/files/ABC123/versions?after=1' },
+  },
+  // Only the pinned version is recorded; the latest state would not replay
+  'https://api.figma.com/v1/files/ABC123?version=2&geometry=paths': {
+    name: 'Pinned File',
+    version: '2',
+    lastModified: '2024-01-02T00:00:00Z',
+    document: {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: [{ id: '0:1', name: 'Page', type: 'CANVAS', children: [] }],
+    },
+  },
+  'https://api.figma.com/v1/teams/T1/projects': {
+    name: 'Design Team',
+    projects: [{ id: 101, name: 'Website' }, { id: 102, name: 'App' }],
+  },
+  'https://api.figma.com/v1/projects/101/files': {
+    name: 'Website',
+    files: [
+      { key: 'F1', name: 'Home page', thumbnail_url: 'https://s3.example.com/f1.png', last_modified: '2024-01-01T00:00:00Z' },
+      { key: 'F2', name: 'Pricing page', thumbnail_url: 'https://s3.example.com/f2.png', last_modified: '2024-03-01T00:00:00Z' },
+      { key: 'F3', name: 'Blog', thumbnail_url: 'https://s3.example.com/f3.png', last_modified: '2024-02-01T00:00:00Z' },
+      { key: 'F4', name: 'About page', thumbnail_url: 'https://s3.example.com/f4.png', last_modified: '2024-04-01T00:00:00Z' },
+    ],
+  },
+};
+
+// Stands in for the network while recording
+function fakeNetwork(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  const data = JSON.stringify(FIGMA_RESPONSES[axios.getUri(config)]);
+  return Promise.resolve({ data, status: 200, statusText: 'OK', headers: {}, config, request: {} });
+}
+
+describe('API routes', () => {
+  const headers = { 'X-Figma-Token': 'figd_test' };
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'figma-fixtures-'));
+    const recorder = axios.create({ adapter: fakeNetwork });
+    new HTTPFixtures({ mode: 'record', dir }).attach(recorder);
+    // Recorded the way the client asks: page links whole, file options as params
+    for (const url of Object.keys(FIGMA_RESPONSES).filter(url => !url.includes('geometry'))) {
+      await recorder.get(url);
+    }
+    await recorder.get('https://api.figma.com/v1/files/ABC123', { params: { version: '2', geometry: 'paths' } });
+
+    // The routes build their own clients, which replay from the environment
+    vi.stubEnv('FIGMA_FIXTURES_MODE', 'replay');
+    vi.stubEnv('FIGMA_FIXTURES_DIR', dir);
+    vi.stubEnv('FIGMA_CACHE', 'off');
+    const { default: apiRouter } = await import('../../server/src/routes/api.js');
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function get(route: string) {
+    const response = await fetch(`${baseUrl}${route}`, { headers });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('should list every page of the version history', async () => {
+    const { status, body } = await get('/versions/ABC123');
+
+    expect(status).toBe(200);
+    expect(body.versions.map((entry: any) => entry.label)).toEqual(['Release 3', 'Release 2', 'Release 1']);
+    expect(body.versions[0]).toEqual({
+      id: '3',
+      createdAt: '2024-01-03T00:00:00Z',
+      label: 'Release 3',
+      description: null,
+      user: 'designer',
+    });
+  });
+
+  it('should convert the pinned version of a file', async () => {
+    const response = await fetch(`${baseUrl}/convert`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ figmaUrl: 'https://www.figma.com/file/ABC123/Pinned', version: '2' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+
+    const download = await fetch(new URL(body.downloadUrl, baseUrl));
+    expect(download.headers.get('content-type')).toBe('application/zip');
+  });
+
+  it('should require credentials for browsing', async () => {
+    expect((await fetch(`${baseUrl}/teams/T1/projects`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/projects/101/files`)).status).toBe(400);
+  });
+
+  it("should list a team's projects", async () => {
+    const { status, body } = await get('/teams/T1/projects');
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      success: true,
+      team: 'Design Team',
+      projects: [{ id: '101', name: 'Website' }, { id: '102', name: 'App' }],
+    });
+  });
+
+  it('should list project files newest first', async () => {
+    const { body } = await get('/projects/101/files');
+
+    expect(body.project).toBe('Website');
+    expect(body.files.map((file: any) => file.key)).toEqual(['F4', 'F2', 'F3', 'F1']);
+    expect(body.files[0]).toEqual({
+      key: 'F4',
+      name: 'About page',
+      thumbnailUrl: 'https://s3.example.com/f4.png',
+      lastModified: '2024-04-01T00:00:00Z',
+    });
+    expect(body).toMatchObject({ page: 1, pageSize: 24, total: 4 });
+  });
+
+  it('should filter project files by name, ignoring case', async () => {
+    const { body } = await get('/projects/101/files?q=%20PAGE%20');
+
+    expect(body.files.map((file: any) => file.key)).toEqual(['F4', 'F2', 'F1']);
+    expect(body.total).toBe(3);
+  });
+
+  it('should page through the matches', async () => {
+    const second = await get('/projects/101/files?q=page&page=2&pageSize=2');
+    expect(second.body.files.map((file: any) => file.key)).toEqual(['F1']);
+    expect(second.body).toMatchObject({ page: 2, pageSize: 2, total: 3 });
+
+    const past = await get('/projects/101/files?page=9&pageSize=2');
+    expect(past.body.files).toEqual([]);
+  });
+
+  it('should fall back to defaults for invalid paging and cap the page size', async () => {
+    for (const query of ['page=0&pageSize=-3', 'page=1.5&pageSize=abc', 'page=&pageSize=']) {
+      const { body } = await get(`/projects/101/files?${query}`);
+      expect(body).toMatchObject({ page: 1, pageSize: 24 });
+    }
+
+    const { body } = await get('/projects/101/files?pageSize=1000');
+    expect(body.pageSize).toBe(100);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import express, { Request } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { FigmaOAuth } from '../../server/src/auth/FigmaOAuth.js';
+import { sessionStore } from '../../server/src/auth/SessionStore.js';
+
+type AuthModule = typeof import('../../server/src/routes/auth.js');
+
+// Just enough of an express request for resolveIdentity
+function fakeRequest(body: Record<string, unknown>, headers: Record<string, string> = {}): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { body, get: (name: string) => lower[name.toLowerCase()] } as unknown as Request;
+}
+
+describe('auth routes', () => {
+  let auth: AuthModule;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // The router reads the OAuth client settings when it loads
+    vi.stubEnv('FIGMA_OAUTH_CLIENT_ID', 'client');
+    vi.stubEnv('FIGMA_OAUTH_CLIENT_SECRET', 'secret');
+    vi.stubEnv('FIGMA_OAUTH_REDIRECT_URI', 'http://localhost/api/auth/figma/callback');
+    auth = await import('../../server/src/routes/auth.js');
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/auth', auth.default);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/auth`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send the browser to Figma with a state cookie', async () => {
+    const response = await fetch(`${baseUrl}/figma`, { redirect: 'manual' });
+
+    expect(response.status).toBe(302);
+    const state = new URL(response.headers.get('location')!).searchParams.get('state');
+    expect(response.headers.get('set-cookie')).toContain(`figma_oauth_state=${state}`);
+  });
+
+  it('should reject a callback whose state does not match the cookie', async () => {
+    const exchange = vi.spyOn(FigmaOAuth.prototype, 'exchangeCode');
+
+    const missing = await fetch(`${baseUrl}/figma/callback?code=abc&state=s1`, { redirect: 'manual' });
+    const mismatched = await fetch(`${baseUrl}/figma/callback?code=abc&state=s1`, {
+      redirect: 'manual',
+      headers: { Cookie: 'figma_oauth_state=s2' },
+    });
+
+    expect(missing.status).toBe(400);
+    expect(mismatched.status).toBe(400);
+    expect(exchange).not.toHaveBeenCalled();
+  });
+
+  it('should exchange the code and start a session', async () => {
+    const exchange = vi.spyOn(FigmaOAuth.prototype, 'exchangeCode').mockResolvedValue({
+      accessToken: 'figu_access',
+      refreshToken: 'figur_refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+      userId: '42',
+    });
+
+    const response = await fetch(`${baseUrl}/figma/callback?code=abc&state=s1`, {
+      redirect: 'manual',
+      headers: { Cookie: 'figma_oauth_state=s1' },
+    });
+
+    expect(response.status).toBe(302);
+    expect(exchange).toHaveBeenCalledWith('abc');
+    const sessionId = /figma_session=([0-9a-f]+)/.exec(response.headers.get('set-cookie') || '')?.[1];
+    expect(sessionStore.get(sessionId)?.tokens.accessToken).toBe('figu_access');
+
+    const session = await (await fetch(`${baseUrl}/session`, { headers: { Cookie: `figma_session=${sessionId}` } })).json();
+    expect(session).toEqual({ oauthEnabled: true, authenticated: true });
+
+    await fetch(`${baseUrl}/logout`, { method: 'POST', headers: { Cookie: `figma_session=${sessionId}` } });
+    expect(sessionStore.get(sessionId)).toBeUndefined();
+  });
+
+  it('should prefer tokens the request carries over the session', async () => {
+    const session = sessionStore.create({
+      accessToken: 'figu_session',
+      refreshToken: 'figur_refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+      userId: '42',
+    });
+    const cookie = { Cookie: `figma_session=${session.id}` };
+
+    expect(await auth.resolveCredentials(fakeRequest({ apiKey: 'figd_body', accessToken: 'figu_body' }, cookie)))
+      .toEqual({ type: 'personal', token: 'figd_body' });
+    expect(await auth.resolveCredentials(fakeRequest({ accessToken: 'figu_body' }, { 'X-Figma-Token': 'figd_header' })))
+      .toEqual({ type: 'oauth', accessToken: 'figu_body' });
+    expect(await auth.resolveCredentials(fakeRequest({}, { 'X-Figma-Token': 'figd_header', Authorization: 'Bearer figu_header' })))
+      .toEqual({ type: 'personal', token: 'figd_header' });
+    expect(await auth.resolveCredentials(fakeRequest({}, { Authorization: 'Bearer figu_header', ...cookie })))
+      .toEqual({ type: 'oauth', accessToken: 'figu_header' });
+
+    const identity = await auth.resolveIdentity(fakeRequest({}, cookie));
+    expect(identity).toEqual({
+      credentials: { type: 'oauth', accessToken: 'figu_session' },
+      owner: 'figma:42',
+      sessionId: session.id,
+    });
+    expect(await auth.resolveIdentity(fakeRequest({}))).toBeNull();
+
+    sessionStore.delete(session.id);
+  });
+
+  it('should refresh a session close to expiry once for concurrent requests', async () => {
+    const session = sessionStore.create({
+      accessToken: 'figu_old',
+      refreshToken: 'figur_refresh',
+      expiresAt: Date.now() + 30 * 1000,
+    });
+    const refresh = vi.spyOn(FigmaOAuth.prototype, 'refresh').mockImplementation(async (tokens) => ({
+      ...tokens,
+      accessToken: 'figu_new',
+      expiresAt: Date.now() + 3600 * 1000,
+    }));
+
+    const results = await Promise.all([
+      auth.sessionCredentials(session.id),
+      auth.sessionCredentials(session.id),
+      auth.sessionCredentials(session.id),
+    ]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(Array(3).fill({ type: 'oauth', accessToken: 'figu_new' }));
+    expect(sessionStore.get(session.id)?.tokens.accessToken).toBe('figu_new');
+
+    // Fresh tokens are used as they are
+    await auth.sessionCredentials(session.id);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    sessionStore.delete(session.id);
+    expect(await auth.sessionCredentials(session.id)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import webhooksRouter, { webhookReceiver } from '../../server/src/routes/webhooks.js';
+
+function owner(token: string): string {
+  return `token:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+describe('webhook routes', () => {
+  let server: Server;
+  let baseUrl: string;
+  let watchId: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/webhooks', webhooksRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks`;
+
+    const watch = webhookReceiver.watch({
+      fileId: 'ABC123',
+      owner: owner('figd_alice'),
+      credentials: { type: 'personal', token: 'figd_alice' },
+      options: {},
+      registeredAt: '2024-01-01T00:00:00.000Z',
+    });
+    webhookReceiver.storeArtifact(watch.id, { zip: Buffer.from('zip'), warnings: [] }, 'convert');
+    watchId = watch.id;
+  });
+
+  afterAll(async () => {
+    webhookReceiver.unwatch(watchId);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('requires credentials', async () => {
+    expect((await fetch(`${baseUrl}/files`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/files/${watchId}/latest`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/files/${watchId}`, { method: 'DELETE' })).status).toBe(400);
+  });
+
+  it('hides watches from other users', async () => {
+    const headers = { 'X-Figma-Token': 'figd_mallory' };
+
+    const list = await (await fetch(`${baseUrl}/files`, { headers })).json();
+    expect(list.files).toEqual([]);
+    expect((await fetch(`${baseUrl}/files/${watchId}/latest`, { headers })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/files/ABC123/latest`, { headers: { 'X-Figma-Token': 'figd_alice' } })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/files/${watchId}`, { method: 'DELETE', headers })).status).toBe(404);
+  });
+
+  it('serves the owner their watches and latest build', async () => {
+    const headers = { 'X-Figma-Token': 'figd_alice' };
+
+    const list = await (await fetch(`${baseUrl}/files`, { headers })).json();
+    expect(list.files).toEqual([
+      expect.objectContaining({ id: watchId, fileId: 'ABC123', latestUrl: `/api/webhooks/files/${watchId}/latest` }),
+    ]);
+
+    const latest = await fetch(`${baseUrl}/files/${watchId}/latest`, { headers });
+    expect(latest.status).toBe(200);
+    expect(Buffer.from(await latest.arrayBuffer()).toString()).toBe('zip');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import axios, { AxiosError, AxiosResponse, CreateAxiosDefaults, InternalAxiosRequestConfig } from 'axios';
+import { FigmaAPIClient, FigmaClientOptions } from '../../server/src/api/FigmaAPIClient.js';
+import { RateLimiter } from '../../server/src/api/RateLimiter.js';
+import { FigmaCache } from '../../server/src/api/FigmaCache.js';
+import { ConversionPipeline } from '../../server/src/pipeline/ConversionPipeline.js';
+import { logger } from '../../server/src/utils/logger.js';
+
+const FILE = {
+  name: 'Retried File',
+  version: '7',
+  lastModified: '2024-01-01T00:00:00Z',
+  document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [] },
+};
+
+type Reply = { status: number; headers?: Record<string, string> } | 'timeout';
+
+// Answers each request with the next scripted reply, the last one repeating
+function scriptedNetwork(replies: Reply[]) {
+  const requests: InternalAxiosRequestConfig[] = [];
+
+  const adapter = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const reply = replies[Math.min(requests.length, replies.length - 1)];
+    requests.push(config);
+
+    if (reply === 'timeout') {
+      return new Promise((_, reject) => setTimeout(() => {
+        reject(new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config));
+      }, config.timeout));
+    }
+
+    const response: AxiosResponse = {
+      data: reply.status === 200 ? FILE : { status: reply.status, err: 'Rate limit exceeded' },
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: reply.headers || {},
+      config,
+      request: {},
+    };
+    return reply.status === 200
+      ? Promise.resolve(response)
+      : Promise.reject(new AxiosError(`Request failed with status code ${reply.status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response));
+  };
+
+  return { adapter, requests };
+}
+
+describe('FigmaAPIClient', () => {
+  let network: ReturnType<typeof scriptedNetwork>;
+
+  beforeEach(() => {
+    logger.clearWarnings();
+    // The client builds its own axios instance; route it through the scripted network
+    const create = axios.create.bind(axios);
+    vi.spyOn(axios, 'create').mockImplementation((config?: CreateAxiosDefaults) => create({ ...config, adapter: network.adapter }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function client(options: FigmaClientOptions = {}) {
+    return new FigmaAPIClient('test-token', {
+      fixtures: null,
+      cache: null,
+      rateLimiter: new RateLimiter({ capacity: 10, refillPerSecond: 100 }),
+      ...options,
+    });
+  }
+
+  function warnings(): string[] {
+    return logger.getWarnings().map(warning => warning.message);
+  }
+
+  it('should wait out a 429 Retry-After before retrying', async () => {
+    network = scriptedNetwork([{ status: 429, headers: { 'retry-after': '0.1' } }, { status: 200 }]);
+
+    const start = Date.now();
+    const file = await client().getFile('abc');
+
+    expect(file.name).toBe('Retried File');
+    expect(network.requests).toHaveLength(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    expect(warnings()).toContain('Figma rate limit (429): waiting 0.1s as requested by Retry-After before retrying (attempt 1/3)');
+  });
+
+  it('should stop after the configured number of retries', async () => {
+    network = scriptedNetwork([{ status: 429, headers: { 'retry-after': '0' } }]);
+
+    await expect(client({ maxRetries: 1 }).getFile('abc')).rejects.toThrow('Rate limit exceeded');
+    expect(network.requests).toHaveLength(2);
+  });
+
+  it('should apply the configured request timeout', async () => {
+    network = scriptedNetwork(['timeout']);
+
+    await expect(client({ timeout: 20, maxRetries: 0 }).getFile('abc')).rejects.toThrow('Request timeout');
+    expect(network.requests).toHaveLength(1);
+    expect(network.requests[0].timeout).toBe(20);
+  });
+
+  it('should give up when Retry-After exceeds the longest worthwhile wait', async () => {
+    network = scriptedNetwork([{ status: 429, headers: { 'retry-after': '120' } }, { status: 200 }]);
+
+    const start = Date.now();
+    await expect(client({ maxRetryAfterMs: 1000 }).getFile('abc')).rejects.toThrow('Rate limit exceeded');
+
+    expect(network.requests).toHaveLength(1);
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(warnings()).toContain('Figma rate limit: Retry-After of 120s exceeds the 1s limit; giving up');
+  });
+
+  it('should report rate limit stalls in the conversion warnings', async () => {
+    network = scriptedNetwork([{ status: 200 }]);
+    const rateLimiter = new RateLimiter({ capacity: 10, refillPerSecond: 100 });
+    // Another conversion's 429 has paused the shared budget
+    rateLimiter.pauseFor(1100);
+
+    const figmaFile = await client({ rateLimiter }).getFile('abc');
+    const { warnings } = await new ConversionPipeline().run({ fileId: 'abc', figmaFile });
+
+    expect(warnings.some(warning => /^Figma rate limit: waited 1\.\ds for the shared request budget$/.test(warning))).toBe(true);
+  });
+
+  it('should serve a cached pinned version without revalidating it', async () => {
+    network = scriptedNetwork([{ status: 200 }]);
+    const dir = await mkdtemp(path.join(tmpdir(), 'figma-cache-'));
+    const cache = new FigmaCache({ dir, maxBytes: 1024 * 1024 });
+
+    try {
+      const first = await client({ cache }).getFile('abc', { version: '7' });
+      const second = await client({ cache }).getFile('abc', { version: '7' });
+
+      expect(second).toEqual(first);
+      expect(network.requests.map(request => request.params)).toEqual([{ version: '7' }]);
+
+      // The latest state still checks its stamp first
+      await client({ cache }).getFile('abc');
+      expect(network.requests.slice(1).map(request => request.params)).toEqual([{ depth: 1 }, undefined]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
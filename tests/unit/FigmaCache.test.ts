@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FigmaCache } from '../../server/src/api/FigmaCache.js';
+
+describe('FigmaCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'figma-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should only serve entries whose stamp still matches', async () => {
+    const cache = new FigmaCache({ dir, maxBytes: 1024 * 1024 });
+    const key = { fileId: 'ABC', kind: 'file' as const, variant: 'latest' };
+
+    await cache.set(key, 'v1:2024-01-01', { name: 'Old' });
+    expect(await cache.get(key, 'v1:2024-01-01')).toEqual({ name: 'Old' });
+    expect(await cache.get(key, 'v2:2024-01-02')).toBeNull();
+
+    // A newer stamp replaces the entry in place
+    await cache.set(key, 'v2:2024-01-02', { name: 'New' });
+    expect(await cache.get(key, 'v2:2024-01-02')).toEqual({ name: 'New' });
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should evict least recently used entries beyond the size limit', async () => {
+    const payload = { blob: 'x'.repeat(400) };
+    const cache = new FigmaCache({ dir, maxBytes: 1200 });
+
+    await cache.set({ fileId: 'A', kind: 'file' }, 's', payload);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set({ fileId: 'B', kind: 'file' }, 's', payload);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    // Reading A makes B the least recently used
+    await cache.get({ fileId: 'A', kind: 'file' }, 's');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set({ fileId: 'C', kind: 'file' }, 's', payload);
+
+    expect(await cache.get({ fileId: 'A', kind: 'file' }, 's')).toEqual(payload);
+    expect(await cache.get({ fileId: 'B', kind: 'file' }, 's')).toBeNull();
+    expect(await cache.get({ fileId: 'C', kind: 'file' }, 's')).toEqual(payload);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { FigmaOAuth, FigmaOAuthError } from '../../server/src/auth/FigmaOAuth.js';
+
+const config = {
+  clientId: 'client',
+  clientSecret: 'secret',
+  redirectUri: 'http://localhost:3001/api/auth/figma/callback',
+  scope: 'file_read',
+};
+
+describe('FigmaOAuth', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only be enabled when the client settings are all set', () => {
+    expect(FigmaOAuth.fromEnv({ FIGMA_OAUTH_CLIENT_ID: 'client' })).toBeNull();
+    expect(
+      FigmaOAuth.fromEnv({
+        FIGMA_OAUTH_CLIENT_ID: 'client',
+        FIGMA_OAUTH_CLIENT_SECRET: 'secret',
+        FIGMA_OAUTH_REDIRECT_URI: config.redirectUri,
+      })
+    ).toBeInstanceOf(FigmaOAuth);
+  });
+
+  it('should put the state in the authorize URL', () => {
+    const url = new URL(new FigmaOAuth(config).getAuthorizeUrl('abc'));
+
+    expect(url.origin + url.pathname).toBe('https://www.figma.com/oauth');
+    expect(url.searchParams.get('state')).toBe('abc');
+    expect(url.searchParams.get('client_id')).toBe('client');
+    expect(url.searchParams.get('response_type')).toBe('code');
+  });
+
+  it('should exchange an authorization code for tokens', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: { access_token: 'figu_access', refresh_token: 'figur_refresh', expires_in: 3600, user_id: 42 },
+    });
+
+    const before = Date.now();
+    const tokens = await new FigmaOAuth(config).exchangeCode('code123');
+
+    const [url, body] = post.mock.calls[0];
+    expect(url).toBe('https://api.figma.com/v1/oauth/token');
+    const form = new URLSearchParams(body as string);
+    expect(form.get('code')).toBe('code123');
+    expect(form.get('grant_type')).toBe('authorization_code');
+    expect(form.get('client_secret')).toBe('secret');
+
+    expect(tokens).toMatchObject({ accessToken: 'figu_access', refreshToken: 'figur_refresh', userId: '42' });
+    expect(tokens.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+  });
+
+  it('should keep the refresh token when Figma does not issue a new one', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: { access_token: 'figu_new', expires_in: 3600 },
+    });
+
+    const tokens = await new FigmaOAuth(config).refresh({
+      accessToken: 'figu_old',
+      refreshToken: 'figur_refresh',
+      expiresAt: 0,
+      userId: '42',
+    });
+
+    const [url, body] = post.mock.calls[0];
+    expect(url).toBe('https://api.figma.com/v1/oauth/refresh');
+    expect(new URLSearchParams(body as string).get('refresh_token')).toBe('figur_refresh');
+    expect(tokens).toMatchObject({ accessToken: 'figu_new', refreshToken: 'figur_refresh', userId: '42' });
+  });
+
+  it('should wrap failed requests with the status code', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(
+      new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 400,
+        statusText: 'Bad Request',
+        data: { message: 'Invalid code' },
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      })
+    );
+
+    const error = await new FigmaOAuth(config).exchangeCode('bad').catch((err) => err);
+    expect(error).toBeInstanceOf(FigmaOAuthError);
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Figma sign-in failed: Invalid code');
+  });
+});
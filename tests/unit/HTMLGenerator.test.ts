@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { HTMLGenerator } from '../../server/src/generator/HTMLGenerator.js';
+import { logger } from '../../server/src/utils/logger.js';
+import type { TransformedNode } from '../../server/src/types/internal.js';
+
+function node(tag: string, id: string, name: string, children: TransformedNode[] = []): TransformedNode {
+  return {
+    element: { tag, attributes: { id, 'data-name': name }, children: [] },
+    styles: {},
+    children,
+  };
+}
+
+describe('HTMLGenerator', () => {
+  const document = node('main', '0:0', 'Document', [
+    node('section', '1:0', 'Marketing', [
+      node('div', '2:0', 'Home'),
+      node('div', '2:1', 'Pricing'),
+    ]),
+    node('section', '1:1', 'App', [
+      node('div', '3:0', 'Home'),
+    ]),
+  ]);
+
+  it('should emit one document per page', () => {
+    const generator = new HTMLGenerator();
+    const pages = generator.generatePages(document, new Map(), 'pages');
+
+    expect(pages.map(p => p.fileName)).toEqual(['marketing.html', 'app.html']);
+    expect(pages[0].html).toContain('<title>Marketing</title>');
+    expect(pages[0].html).toContain('data-figma-id="2:1"');
+    expect(pages[0].html).not.toContain('data-figma-id="3:0"');
+  });
+
+  it('should emit one document per top-level frame with unique file names', () => {
+    const generator = new HTMLGenerator();
+    const pages = generator.generatePages(document, new Map(), 'frames');
+
+    expect(pages.map(p => p.fileName)).toEqual(['home.html', 'pricing.html', 'home-2.html']);
+    expect(pages[2].title).toBe('Home (App)');
+
+    const index = generator.generateIndex(pages, 'Site');
+    expect(index).toContain('<a href="pricing.html">Pricing (Marketing)</a>');
+  });
+
+  it('should report links to frames on pages a single page leaves out', () => {
+    const link = (target: string): TransformedNode => {
+      const anchor = node('a', `link-${target}`, 'Link');
+      anchor.element.attributes['data-link-node'] = target;
+      return anchor;
+    };
+    const linked = node('main', '0:0', 'Document', [
+      node('section', '1:0', 'Marketing', [
+        node('div', '2:0', 'Home', [link('2:1'), link('3:0')]),
+        node('div', '2:1', 'Pricing'),
+      ]),
+      node('section', '1:1', 'App', [node('div', '3:0', 'Home')]),
+    ]);
+    logger.clearWarnings();
+
+    const html = new HTMLGenerator().generate(linked, new Map());
+
+    expect(html).toContain('href="#node-2-1"');
+    expect(html).not.toContain('href="#node-3-0"');
+    expect(logger.getWarnings().map(warning => warning.message)).toEqual([
+      'Single-page output shows only the first page, "Marketing"; "App" is left out. Set pageMode to "pages" to convert every page',
+      'Text links to node 3:0, which is not part of the converted output; the link has no destination',
+    ]);
+  });
+});
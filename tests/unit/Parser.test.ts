@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '../../server/src/parser/Parser.js';
+import { LayoutStrategy } from '../../server/src/types/internal.js';
+import type { FigmaFile, FigmaNode, NodeType } from '../../server/src/types/figma.js';
+
+const brand = { r: 0.4, g: 0.2, b: 1, a: 1 };
+
+function fileWith(children: FigmaNode[]): FigmaFile {
+  return {
+    name: 'Layers',
+    lastModified: '',
+    thumbnailUrl: '',
+    version: '1',
+    schemaVersion: 0,
+    document: {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: [{ id: '0:1', name: 'Page', type: 'CANVAS', children }],
+    },
+    components: {},
+    styles: {},
+  };
+}
+
+describe('Parser node types', () => {
+  it('names node types that have no mapping', () => {
+    const parser = new Parser();
+    parser.parse(fileWith([
+      { id: '7:1', name: 'Map', type: 'EMBED' },
+      { id: '7:2', name: 'Video', type: 'EMBED' },
+      // The plugin API name for REGULAR_POLYGON
+      { id: '7:3', name: 'Triangle', type: 'POLYGON' as NodeType },
+    ]));
+
+    expect(parser.getWarnings()).toEqual([
+      'Unsupported Figma node type EMBED (2 layers, e.g. "Map") was rendered as a plain box',
+    ]);
+  });
+});
+
+describe('Parser flow inference', () => {
+  it('infers rows and columns for hand-placed layers and keeps overlaps absolute', () => {
+    const layer = (id: string, name: string, type: NodeType, x: number, y: number, width: number, height: number): FigmaNode => ({
+      id,
+      name,
+      type,
+      absoluteBoundingBox: { x, y, width, height },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '17:1',
+        name: 'Profile',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+        children: [
+          layer('17:2', 'Avatar', 'ELLIPSE', 16, 16, 48, 48),
+          // Sticks out of the avatar's top-right corner
+          layer('17:3', 'Status', 'ELLIPSE', 56, 8, 12, 12),
+          layer('17:4', 'Name', 'RECTANGLE', 80, 20, 120, 32),
+          layer('17:5', 'Bio', 'RECTANGLE', 16, 88, 288, 40),
+          layer('17:6', 'Action', 'RECTANGLE', 16, 144, 100, 40),
+        ],
+      },
+    ]);
+
+    const [profile] = new Parser().parse(figmaFile).children[0].children;
+    const [header, bio, action] = profile.children;
+    const [stack, name] = header.children;
+
+    expect(profile.layout).toMatchObject({ strategy: LayoutStrategy.Flexbox, flexDirection: 'column', gap: 16, alignItems: 'flex-start' });
+    expect(header).toMatchObject({ id: '17:1-flow-0', name: 'Row', type: 'GROUP' });
+    expect(header.layout).toMatchObject({ strategy: LayoutStrategy.Flexbox, flexDirection: 'row', gap: 12, alignItems: 'center' });
+    expect(name.id).toBe('17:4');
+    // The larger gap above the bio is the shared gap plus a margin
+    expect(bio.layout.margin).toEqual({ top: 8, right: 0, bottom: 0, left: 0 });
+    expect(action.layout.margin).toBeUndefined();
+
+    expect(stack.name).toBe('Stack');
+    expect(stack.children.map(child => [child.name, child.layout.absolutePositioned])).toEqual([
+      ['Avatar', true],
+      ['Status', true],
+    ]);
+  });
+});
+
+describe('Parser regrouping', () => {
+  it('moves a layer into the topmost layer it sits inside and warns instead of reordering', () => {
+    const cover = (id: string, name: string, alpha: number): FigmaNode => ({
+      id,
+      name,
+      type: 'RECTANGLE',
+      fills: [{ type: 'SOLID', color: { ...brand, a: alpha } }],
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '18:1',
+        name: 'Hero',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+        children: [
+          cover('18:2', 'Image', 1),
+          cover('18:3', 'Overlay', 0.5),
+          {
+            id: '18:4',
+            name: 'Title',
+            type: 'TEXT',
+            characters: 'Welcome',
+            style: { fontFamily: 'Arial', fontSize: 32, fontWeight: 400 },
+            absoluteBoundingBox: { x: 40, y: 80, width: 200, height: 40 },
+          },
+        ],
+      },
+    ]);
+
+    const parser = new Parser();
+    const [hero] = parser.parse(figmaFile).children[0].children;
+    const [image, overlay] = hero.children;
+
+    // Inside the image the title would paint under the overlay; it goes into the overlay instead
+    expect(parser.getWarnings()).toContain(
+      'Layer "Title" sits inside "Image", but moving it into "Image" would paint it below "Overlay"; it was not moved to keep its stacking order'
+    );
+    expect(hero.children.map(child => child.name)).toEqual(['Image', 'Overlay']);
+    expect(image.children).toHaveLength(0);
+    expect(overlay.children.map(child => child.id)).toEqual(['18:4']);
+  });
+
+  it('leaves layers painted below the container they sit inside', () => {
+    const figmaFile = fileWith([
+      {
+        id: '19:1',
+        name: 'Card',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+        children: [
+          { id: '19:2', name: 'Shadow', type: 'RECTANGLE', absoluteBoundingBox: { x: 20, y: 20, width: 100, height: 100 } },
+          {
+            id: '19:3',
+            name: 'Panel',
+            type: 'RECTANGLE',
+            fills: [{ type: 'SOLID', color: brand }],
+            absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 200 },
+          },
+        ],
+      },
+    ]);
+
+    const parser = new Parser();
+    const [card] = parser.parse(figmaFile).children[0].children;
+
+    expect(parser.getWarnings()).toContain(
+      'Layer "Shadow" sits inside "Panel" but is painted below "Panel"; it was not moved into "Panel" to keep its stacking order'
+    );
+    expect(card.children.map(child => child.name)).toEqual(['Shadow', 'Panel']);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from '../../server/src/api/RateLimiter.js';
+
+describe('RateLimiter', () => {
+  it('should allow a burst and then throttle to the refill rate', async () => {
+    const limiter = new RateLimiter({ capacity: 2, refillPerSecond: 20 });
+
+    expect(await limiter.acquire()).toBeLessThan(20);
+    expect(await limiter.acquire()).toBeLessThan(20);
+    // Bucket is empty - the next token takes ~50ms to refill
+    expect(await limiter.acquire()).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should hold every caller while paused by Retry-After', async () => {
+    const limiter = new RateLimiter({ capacity: 5, refillPerSecond: 100 });
+    limiter.pauseFor(80);
+
+    const waits = await Promise.all([limiter.acquire(), limiter.acquire()]);
+    for (const waited of waits) {
+      expect(waited).toBeGreaterThanOrEqual(70);
+    }
+  });
+});
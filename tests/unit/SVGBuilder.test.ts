@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { SVGBuilder } from '../../server/src/assets/SVGBuilder.js';
+import type { ParsedNode } from '../../server/src/types/internal.js';
+
+function node(overrides: Partial<ParsedNode>): ParsedNode {
+  return {
+    id: '1:1',
+    name: 'node',
+    type: 'FRAME',
+    children: [],
+    bounds: { x: 0, y: 0, width: 24, height: 24 },
+    styles: { fills: [], strokes: [], effects: [], opacity: 1, blendMode: 'NORMAL' },
+    layout: {} as ParsedNode['layout'],
+    ...overrides,
+  };
+}
+
+const black = { type: 'SOLID' as const, color: { r: 0, g: 0, b: 0, a: 1 } };
+
+describe('SVGBuilder', () => {
+  it('composes an icon frame from its vector children', () => {
+    const icon = node({
+      id: '1:1',
+      name: 'icon/check',
+      bounds: { x: 100, y: 50, width: 24, height: 24 },
+      children: [
+        node({
+          id: '1:2',
+          type: 'VECTOR',
+          bounds: { x: 104, y: 56, width: 16, height: 12 },
+          styles: { fills: [], strokes: [{ ...black, weight: 2 }], effects: [], opacity: 1, blendMode: 'NORMAL' },
+          geometry: { fill: [], stroke: [{ path: 'M0 6L6 12L16 0', windingRule: 'NONZERO' }] },
+        }),
+      ],
+    });
+
+    const builder = new SVGBuilder();
+    expect(builder.collectGraphics([node({ type: 'CANVAS', children: [icon] })])).toEqual([icon]);
+
+    const graphic = builder.build(icon)!;
+    expect(graphic.width).toBe(24);
+    expect(graphic.body).toContain('<g transform="translate(4 6)">');
+    expect(graphic.body).toContain('<path d="M0 6L6 12L16 0" fill="rgb(0, 0, 0)"/>');
+    expect(builder.toDocument(graphic)).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="24" height="24" viewBox="0 0 24 24"/);
+  });
+
+  it('does not treat frames with text or images as icons', () => {
+    const builder = new SVGBuilder();
+    const vector = node({ id: '2:2', type: 'VECTOR', geometry: { fill: [{ path: 'M0 0', windingRule: 'EVENODD' }], stroke: [] } });
+    const card = node({ id: '2:1', children: [vector, node({ id: '2:3', type: 'TEXT' })] });
+
+    expect(builder.collectGraphics([card])).toEqual([vector]);
+    expect(builder.build(vector)).toBeNull();
+  });
+
+  it('escapes path data inside the d attribute', () => {
+    const vector = node({
+      id: '3:1',
+      type: 'VECTOR',
+      styles: { fills: [black], strokes: [], effects: [], opacity: 1, blendMode: 'NORMAL' },
+      geometry: { fill: [{ path: 'M0 0"/><script>&', windingRule: 'NONZERO' }], stroke: [] },
+    });
+
+    expect(new SVGBuilder().build(vector)!.body).toBe('<path d="M0 0&quot;/>&lt;script>&amp;" fill="rgb(0, 0, 0)"/>');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SessionStore } from '../../server/src/auth/SessionStore.js';
+
+const tokens = { accessToken: 'figu_access', refreshToken: 'figur_refresh', expiresAt: 0 };
+
+describe('SessionStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hand out unguessable IDs and update tokens in place', () => {
+    const store = new SessionStore();
+    const session = store.create(tokens);
+
+    expect(session.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(store.get(session.id)).toBe(session);
+    expect(store.get(undefined)).toBeUndefined();
+    expect(store.get('unknown')).toBeUndefined();
+
+    store.updateTokens(session.id, { ...tokens, accessToken: 'figu_new' });
+    expect(store.get(session.id)?.tokens.accessToken).toBe('figu_new');
+
+    store.delete(session.id);
+    expect(store.get(session.id)).toBeUndefined();
+  });
+
+  it('should drop only sessions idle for a week', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const store = new SessionStore();
+    const idle = store.create(tokens);
+    const active = store.create(tokens);
+
+    vi.setSystemTime(new Date('2024-01-07T00:00:00Z'));
+    store.get(active.id);
+    vi.setSystemTime(new Date('2024-01-08T00:00:01Z'));
+
+    expect(store.cleanup()).toBe(1);
+    expect(store.get(idle.id)).toBeUndefined();
+    expect(store.get(active.id)).toBe(active);
+  });
+});
@@ -0,0 +1,852 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '../../server/src/parser/Parser.js';
+import { Transformer } from '../../server/src/transformer/Transformer.js';
+import { VariableResolver } from '../../server/src/transformer/VariableResolver.js';
+import { CSSGenerator } from '../../server/src/generator/CSSGenerator.js';
+import { HTMLGenerator } from '../../server/src/generator/HTMLGenerator.js';
+import { AssetManager } from '../../server/src/assets/AssetManager.js';
+import { collectExportNodeIds } from '../../server/src/utils/helpers.js';
+import type { ExportSetting, FigmaFile, FigmaNode, FigmaLocalVariables, Hyperlink, NodeType, TextStyle } from '../../server/src/types/figma.js';
+
+const brand = { r: 0.4, g: 0.2, b: 1, a: 1 };
+
+function fileWith(children: FigmaNode[]): FigmaFile {
+  return {
+    name: 'Styles',
+    lastModified: '',
+    thumbnailUrl: '',
+    version: '1',
+    schemaVersion: 0,
+    document: {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: [{ id: '0:1', name: 'Page', type: 'CANVAS', children }],
+    },
+    components: {},
+    styles: {
+      'S:1': { key: 'k1', name: 'Brand/Primary', styleType: 'FILL', description: '' },
+      'S:2': { key: 'k2', name: 'Heading/H1', styleType: 'TEXT', description: '' },
+    },
+  };
+}
+
+describe('Transformer shared styles', () => {
+  it('turns fill and text style references into tokens', () => {
+    const figmaFile = fileWith([
+      {
+        id: '1:1',
+        name: 'Card',
+        type: 'RECTANGLE',
+        fills: [{ type: 'SOLID', color: brand }],
+        styles: { fill: 'S:1' },
+        absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 },
+      },
+      {
+        id: '1:2',
+        name: 'Title',
+        type: 'TEXT',
+        characters: 'Hello',
+        fills: [{ type: 'SOLID', color: brand }],
+        style: { fontFamily: 'Arial', fontSize: 32, fontWeight: 700 },
+        styles: { fill: 'S:1', text: 'S:2' },
+        absoluteBoundingBox: { x: 0, y: 120, width: 100, height: 40 },
+      },
+    ]);
+
+    const transformer = new Transformer();
+    const transformed = transformer.transform(new Parser().parse(figmaFile));
+    const tokens = transformer.getDesignTokens();
+
+    expect(tokens.variables).toEqual({ '--color-brand-primary': 'rgb(102, 51, 255)' });
+    expect(tokens.textStyles['text-heading-h1']).toMatchObject({ fontSize: '32px', fontWeight: 700 });
+
+    const [card, title] = transformed.children[0].children;
+    expect(card.styles.backgroundColor).toBe('var(--color-brand-primary)');
+    expect(title.styles.color).toBe('var(--color-brand-primary)');
+    expect(title.styles.fontSize).toBeUndefined();
+    expect(title.element.attributes.class).toBe('text-heading-h1');
+
+    const { css } = new CSSGenerator().generate([transformed], tokens);
+    expect(css).toContain(':root {\n  --color-brand-primary: rgb(102, 51, 255);\n}');
+    expect(css).toContain('.text-heading-h1 {');
+  });
+
+  it('keeps the literal value when a node overrides its style', () => {
+    const figmaFile = fileWith([
+      {
+        id: '1:1',
+        name: 'A',
+        type: 'RECTANGLE',
+        fills: [{ type: 'SOLID', color: brand }],
+        styles: { fill: 'S:1' },
+      },
+      {
+        id: '1:2',
+        name: 'B',
+        type: 'RECTANGLE',
+        fills: [{ type: 'SOLID', color: brand, opacity: 0.5 }],
+        styles: { fill: 'S:1' },
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [a, b] = transformed.children[0].children;
+
+    expect(a.styles.backgroundColor).toBe('var(--color-brand-primary)');
+    expect(b.styles.backgroundColor).toBe('rgba(102, 51, 255, 0.5)');
+  });
+
+  const box = (id: string, opacity?: number): FigmaNode => ({
+    id,
+    name: id,
+    type: 'RECTANGLE',
+    fills: [{ type: 'SOLID', color: brand, opacity }],
+    styles: { fill: 'S:1' },
+  });
+  const heading = (id: string, fontSize: number): FigmaNode => ({
+    id,
+    name: id,
+    type: 'TEXT',
+    characters: 'Hello',
+    style: { fontFamily: 'Arial', fontSize, fontWeight: 700 },
+    styles: { text: 'S:2' },
+  });
+
+  it('takes style values from their definitions, not the first layer seen', () => {
+    const figmaFile = fileWith([box('1:1', 0.5), box('1:2'), heading('1:3', 40), heading('1:4', 32)]);
+
+    const transformer = new Transformer({
+      styleDefinitions: {
+        'S:1': { name: 'Brand/Primary', styleType: 'FILL', fills: [{ type: 'SOLID', color: brand }] },
+        'S:2': { name: 'Heading/H1', styleType: 'TEXT', textStyle: { fontFamily: 'Arial', fontSize: 32, fontWeight: 700 } },
+      },
+    });
+    const transformed = transformer.transform(new Parser().parse(figmaFile));
+    const tokens = transformer.getDesignTokens();
+    const [overridden, plain, large, regular] = transformed.children[0].children;
+
+    expect(tokens.variables['--color-brand-primary']).toBe('rgb(102, 51, 255)');
+    expect(overridden.styles.backgroundColor).toBe('rgba(102, 51, 255, 0.5)');
+    expect(plain.styles.backgroundColor).toBe('var(--color-brand-primary)');
+
+    expect(tokens.textStyles['text-heading-h1']).toMatchObject({ fontSize: '32px' });
+    expect(large.styles.fontSize).toBe('40px');
+    expect(regular.styles.fontSize).toBeUndefined();
+
+    expect(transformer.getWarnings()).toEqual(
+      expect.arrayContaining([
+        'Style --color-brand-primary is rgb(102, 51, 255), but 1 of 2 layers using it differ; they keep their own values',
+        'Text style .text-heading-h1 differs on 1 of 2 layers using it; they override it in their own rules',
+      ])
+    );
+  });
+
+  it('uses the value most layers share when a style has no definition', () => {
+    const figmaFile = fileWith([box('1:1', 0.5), box('1:2'), box('1:3')]);
+
+    const transformer = new Transformer();
+    const [first, second, third] = transformer.transform(new Parser().parse(figmaFile)).children[0].children;
+
+    expect(transformer.getDesignTokens().variables['--color-brand-primary']).toBe('rgb(102, 51, 255)');
+    expect(first.styles.backgroundColor).toBe('rgba(102, 51, 255, 0.5)');
+    expect(second.styles.backgroundColor).toBe('var(--color-brand-primary)');
+    expect(third.styles.backgroundColor).toBe('var(--color-brand-primary)');
+    expect(transformer.getWarnings()).toContain(
+      'Style --color-brand-primary is rgb(102, 51, 255), but 1 of 3 layers using it differ; they keep their own values'
+    );
+  });
+});
+
+describe('Transformer variables', () => {
+  const variables: FigmaLocalVariables = {
+    variableCollections: {
+      'VC:1': {
+        id: 'VC:1',
+        name: 'Color',
+        key: 'c',
+        modes: [{ modeId: 'm1', name: 'Light' }, { modeId: 'm2', name: 'Dark' }],
+        defaultModeId: 'm1',
+        variableIds: ['V:1', 'V:2'],
+      },
+    },
+    variables: {
+      'V:1': {
+        id: 'V:1',
+        name: 'surface/default',
+        key: 'v1',
+        variableCollectionId: 'VC:1',
+        resolvedType: 'COLOR',
+        valuesByMode: { m1: { r: 1, g: 1, b: 1, a: 1 }, m2: { r: 0, g: 0, b: 0, a: 1 } },
+      },
+      'V:2': {
+        id: 'V:2',
+        name: 'space/md',
+        key: 'v2',
+        variableCollectionId: 'VC:1',
+        resolvedType: 'FLOAT',
+        scopes: ['GAP'],
+        valuesByMode: { m1: 16, m2: 24 },
+      },
+    },
+  };
+
+  it('references bound variables and emits a theme per mode', () => {
+    const figmaFile = fileWith([
+      {
+        id: '1:1',
+        name: 'Panel',
+        type: 'FRAME',
+        layoutMode: 'VERTICAL',
+        itemSpacing: 16,
+        fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 }, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'V:1' } } }],
+        boundVariables: { itemSpacing: { type: 'VARIABLE_ALIAS', id: 'V:2' } },
+        children: [],
+      },
+    ]);
+
+    const transformer = new Transformer({ variables: new VariableResolver(variables) });
+    const transformed = transformer.transform(new Parser().parse(figmaFile));
+    const [panel] = transformed.children[0].children;
+
+    expect(panel.styles.backgroundColor).toBe('var(--surface-default)');
+    expect(panel.styles.gap).toBe('var(--space-md)');
+
+    const { css } = new CSSGenerator().generate([transformed], transformer.getDesignTokens());
+    expect(css).toContain('--surface-default: rgb(255, 255, 255);');
+    expect(css).toContain('[data-theme~="dark"] {\n  --surface-default: rgb(0, 0, 0);');
+    expect(css).toContain('@media (prefers-color-scheme: dark) {\n  :root:not([data-theme]) {');
+  });
+
+  it('keeps paint opacity and stroke insets around bound variables', () => {
+    const figmaFile = fileWith([
+      {
+        id: '1:1',
+        name: 'Scrim',
+        type: 'FRAME',
+        layoutMode: 'VERTICAL',
+        paddingTop: 16,
+        paddingRight: 16,
+        paddingBottom: 16,
+        paddingLeft: 16,
+        strokesIncludedInLayout: false,
+        fills: [
+          { type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 }, opacity: 0.4, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'V:1' } } },
+        ],
+        strokes: [{ type: 'SOLID', color: brand, weight: 2, align: 'INSIDE' }],
+        boundVariables: {
+          paddingTop: { type: 'VARIABLE_ALIAS', id: 'V:2' },
+          paddingBottom: { type: 'VARIABLE_ALIAS', id: 'V:2' },
+        },
+        children: [],
+      },
+    ]);
+
+    const transformed = new Transformer({ variables: new VariableResolver(variables) }).transform(new Parser().parse(figmaFile));
+    const [scrim] = transformed.children[0].children;
+
+    expect(scrim.styles.backgroundColor).toBe('color-mix(in srgb, var(--surface-default) 40%, transparent)');
+    expect(scrim.styles.padding).toBe('calc(var(--space-md) - 2px) 14px calc(var(--space-md) - 2px) 14px');
+  });
+
+  it('keeps literals for variables the file does not define', () => {
+    const figmaFile = fileWith([
+      {
+        id: '1:1',
+        name: 'Box',
+        type: 'RECTANGLE',
+        fills: [{ type: 'SOLID', color: brand, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'V:404' } } }],
+      },
+    ]);
+
+    const transformed = new Transformer({ variables: new VariableResolver(variables) }).transform(new Parser().parse(figmaFile));
+
+    expect(transformed.children[0].children[0].styles.backgroundColor).toBe('rgb(102, 51, 255)');
+  });
+});
+
+describe('Transformer rendered exports', () => {
+  it('replaces an exported node with a srcset image', () => {
+    const figmaFile = fileWith([
+      {
+        id: '5:1',
+        name: 'Hero art',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+        children: [{ id: '5:2', name: 'Blob', type: 'ELLIPSE' }],
+      },
+    ]);
+
+    const transformer = new Transformer({
+      rasters: {
+        '5:1': {
+          format: 'png',
+          width: 320,
+          height: 200,
+          sources: [
+            { scale: 1, localPath: 'assets/5-1@1x.png' },
+            { scale: 2, localPath: 'assets/5-1@2x.png' },
+          ],
+        },
+      },
+    });
+    const [hero] = transformer.transform(new Parser().parse(figmaFile)).children[0].children;
+
+    expect(hero.element.tag).toBe('img');
+    expect(hero.element.attributes.src).toBe('assets/5-1@1x.png');
+    expect(hero.element.attributes.srcset).toBe('assets/5-1@1x.png 1x, assets/5-1@2x.png 2x');
+    expect(hero.children).toEqual([]);
+  });
+
+  it('keeps an exported screen as HTML and renders only the graphics in it', () => {
+    const exportSettings: ExportSetting[] = [{ format: 'PNG', suffix: '', constraint: { type: 'SCALE', value: 2 } }];
+    const figmaFile = fileWith([
+      {
+        id: '5:1',
+        name: 'Home screen',
+        type: 'FRAME',
+        exportSettings,
+        absoluteBoundingBox: { x: 0, y: 0, width: 375, height: 812 },
+        children: [
+          { id: '5:2', name: 'Title', type: 'TEXT', characters: 'Welcome', absoluteBoundingBox: { x: 16, y: 16, width: 200, height: 40 } },
+          {
+            id: '5:3',
+            name: 'Logo',
+            type: 'GROUP',
+            exportSettings,
+            absoluteBoundingBox: { x: 16, y: 80, width: 48, height: 48 },
+            children: [{ id: '5:4', name: 'Mark', type: 'ELLIPSE', absoluteBoundingBox: { x: 16, y: 80, width: 48, height: 48 } }],
+          },
+        ],
+      },
+    ]);
+
+    const exported = collectExportNodeIds(figmaFile.document);
+    expect(exported).toEqual(['5:3']);
+
+    const rasters = Object.fromEntries(exported.map(id => [
+      id,
+      { format: 'png' as const, width: 48, height: 48, sources: [{ scale: 2, localPath: 'assets/5-3@2x.png' }] },
+    ]));
+    const [screen] = new Transformer({ rasters }).transform(new Parser().parse(figmaFile)).children[0].children;
+
+    expect(screen.element.tag).toBe('div');
+    const [title, logo] = screen.children;
+    expect(title.element.textContent).toBe('Welcome');
+    expect(logo.element).toMatchObject({ tag: 'img', attributes: { src: 'assets/5-3@2x.png' } });
+  });
+});
+
+describe('Transformer node types', () => {
+  const box = (x: number, y: number, width: number, height: number) => ({ absoluteBoundingBox: { x, y, width, height } });
+
+  it('maps lines, ellipses, sections and tables to fitting elements', () => {
+    const figmaFile = fileWith([
+      {
+        id: '6:1',
+        name: 'Pricing',
+        type: 'SECTION',
+        ...box(0, 0, 400, 300),
+        children: [
+          { id: '6:2', name: 'Divider', type: 'LINE', strokes: [{ type: 'SOLID', color: brand }], strokeWeight: 2, ...box(0, 10, 400, 0) },
+          { id: '6:3', name: 'Dot', type: 'ELLIPSE', fills: [{ type: 'SOLID', color: brand }], ...box(0, 20, 10, 10) },
+          { id: '6:4', name: 'Export area', type: 'SLICE', ...box(0, 0, 400, 300) },
+          {
+            id: '6:5',
+            name: 'Plans',
+            type: 'TABLE',
+            ...box(0, 100, 200, 80),
+            children: [
+              { id: '6:8', name: 'Cell', type: 'TABLE_CELL', characters: 'Pro', ...box(100, 140, 100, 40) },
+              { id: '6:6', name: 'Cell', type: 'TABLE_CELL', characters: 'Plan', ...box(0, 100, 100, 40) },
+              { id: '6:7', name: 'Cell', type: 'TABLE_CELL', characters: 'Price', ...box(100, 100, 100, 40) },
+              { id: '6:9', name: 'Cell', type: 'TABLE_CELL', characters: 'Basic', ...box(0, 140, 100, 40) },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [section] = transformed.children[0].children;
+    const [line, dot, table] = section.children;
+
+    expect(section.element.tag).toBe('section');
+    expect(section.element.attributes['aria-label']).toBe('Pricing');
+    expect(section.children).toHaveLength(3);
+    expect(line.element.tag).toBe('hr');
+    expect(line.styles).toMatchObject({ border: 'none', borderTop: '2px solid rgb(102, 51, 255)', height: '0' });
+    expect(dot.styles.borderRadius).toBe('50%');
+
+    expect(table.element.tag).toBe('table');
+    expect(table.children.map(row => row.children.map(cell => cell.element.textContent))).toEqual([
+      ['Plan', 'Price'],
+      ['Basic', 'Pro'],
+    ]);
+    expect(table.children[0].children[0].styles.position).toBeUndefined();
+
+    const { classMap } = new CSSGenerator().generate([transformed]);
+    const html = new HTMLGenerator().generate(transformed, classMap);
+    expect(html).toMatch(/<hr [^>]*>\n/);
+    expect(html).not.toContain('</hr>');
+  });
+
+  it('keeps a sized box for vectors that come without path geometry', () => {
+    const figmaFile = fileWith([
+      {
+        id: '6:10',
+        name: 'Banner',
+        type: 'FRAME',
+        ...box(0, 0, 400, 300),
+        children: [
+          { id: '6:11', name: 'Blob', type: 'VECTOR', fills: [{ type: 'SOLID', color: brand }], ...box(0, 0, 40, 30) },
+          { id: '6:12', name: 'Union', type: 'BOOLEAN_OPERATION', fills: [{ type: 'SOLID', color: brand }], ...box(50, 0, 20, 20) },
+        ],
+      },
+    ]);
+    const parsed = new Parser().parse(figmaFile);
+    const assetManager = new AssetManager();
+    assetManager.exportVectors([parsed], 'inline');
+
+    const transformed = new Transformer({ vectors: assetManager.getVectors() }).transform(parsed);
+    const [blob, union] = transformed.children[0].children[0].children;
+
+    expect(blob.element.tag).toBe('div');
+    expect(blob.styles).toMatchObject({ width: '40px', height: '30px' });
+    expect(union.element.tag).toBe('div');
+    expect(union.styles).toMatchObject({ width: '20px', height: '20px' });
+  });
+});
+
+describe('Transformer rotation', () => {
+  it('sizes rotated nodes unrotated and rotates them with CSS', () => {
+    const figmaFile = fileWith([
+      {
+        id: '8:1',
+        name: 'Canvas',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+        children: [
+          { id: '8:2', name: 'Backdrop', type: 'RECTANGLE', absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 } },
+          {
+            id: '8:3',
+            name: 'Badge',
+            type: 'FRAME',
+            size: { x: 100, y: 20 },
+            // 90° counterclockwise in Figma
+            relativeTransform: [[0, 1, 50], [-1, 0, 140]],
+            absoluteBoundingBox: { x: 50, y: 40, width: 20, height: 100 },
+            children: [
+              { id: '8:4', name: 'Fill', type: 'RECTANGLE', absoluteBoundingBox: { x: 50, y: 40, width: 20, height: 100 } },
+              // 10px in and 5px down inside the badge, before rotation
+              { id: '8:5', name: 'Dot', type: 'ELLIPSE', absoluteBoundingBox: { x: 55, y: 120, width: 10, height: 10 } },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const parsed = new Parser().parse(figmaFile);
+    const badge = parsed.children[0].children[0].children[1];
+    const dot = badge.children[1];
+
+    expect(badge.layout).toMatchObject({ width: 100, height: 20, position: { x: 10, y: 80 }, rotation: -90 });
+    expect(dot.layout).toMatchObject({ width: 10, height: 10, position: { x: 20, y: 85 } });
+    expect(dot.layout.rotation).toBeUndefined();
+
+    const transformed = new Transformer().transform(parsed);
+    expect(transformed.children[0].children[0].children[1].styles).toMatchObject({
+      width: '100px',
+      height: '20px',
+      left: '10px',
+      top: '80px',
+      transform: 'rotate(-90deg)',
+      transformOrigin: 'center',
+    });
+  });
+});
+
+describe('Transformer text runs', () => {
+  it('emits inline elements for characters with style overrides', () => {
+    const characters = 'Save big on plans today';
+    const figmaFile = fileWith([
+      {
+        id: '9:1',
+        name: 'Promo',
+        type: 'TEXT',
+        characters,
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+        style: { fontFamily: 'Arial', fontSize: 16, fontWeight: 400 },
+        // "Save" plain, "big" bold, "on" plain, "plans" linked, "today" italic and colored
+        characterStyleOverrides: [0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 0, 2, 2, 2, 2, 2, 0, 3, 3, 3, 3, 3],
+        styleOverrideTable: {
+          1: { fontWeight: 700 },
+          2: { hyperlink: { type: 'URL', url: 'https://example.com/plans?a=1&b=2' }, textDecoration: 'UNDERLINE' },
+          3: { italic: true, fills: [{ type: 'SOLID', color: brand }] },
+        },
+      },
+    ]);
+
+    const parsed = new Parser().parse(figmaFile);
+    expect(parsed.children[0].children[0].textRuns?.map(run => run.characters)).toEqual([
+      'Save ', 'big', ' on ', 'plans', ' ', 'today',
+    ]);
+
+    const transformed = new Transformer().transform(parsed);
+    const [promo] = transformed.children[0].children;
+    expect(promo.element.textContent).toBe(characters);
+    expect(promo.element.children[1]).toMatchObject({ tag: 'strong', styles: { fontWeight: 700 } });
+    expect(promo.element.children[3]).toMatchObject({ tag: 'a', styles: { textDecoration: 'underline' } });
+    expect(promo.element.children[5]).toMatchObject({
+      tag: 'em',
+      styles: { fontStyle: 'italic', color: 'rgb(102, 51, 255)' },
+    });
+
+    const { css, classMap } = new CSSGenerator().generate([transformed]);
+    const html = new HTMLGenerator().generate(transformed, classMap);
+    const strong = classMap.get('9:1-run-1');
+    expect(css).toContain(`.${strong} {\n  font-weight: 700;\n}`);
+    expect(html).toContain(
+      `>Save <strong class="${strong}">big</strong> on <a class="${classMap.get('9:1-run-3')}" href="https://example.com/plans?a=1&b=2">plans</a> ` +
+      `<em class="${classMap.get('9:1-run-5')}">today</em></span>`
+    );
+  });
+});
+
+describe('Transformer hyperlinks', () => {
+  it('links text to rewritten URLs and to the pages of other frames', () => {
+    const text = (id: string, name: string, hyperlink: Hyperlink): FigmaNode => ({
+      id,
+      name,
+      type: 'TEXT',
+      characters: name,
+      style: { fontFamily: 'Arial', fontSize: 16, fontWeight: 400, hyperlink },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '10:1',
+        name: 'Home',
+        type: 'FRAME',
+        children: [
+          text('10:2', 'Pricing', { type: 'URL', url: 'https://proto.example.com/pricing' }),
+          text('10:3', 'About', { type: 'NODE', nodeID: '11:1' }),
+          text('10:4', 'Top', { type: 'NODE', nodeID: '10:1' }),
+        ],
+      },
+      { id: '11:1', name: 'About', type: 'FRAME', children: [] },
+    ]);
+
+    const transformer = new Transformer({ linkRewrites: { 'https://proto.example.com/': '/', 'https://proto.example.com/blog': '/news' } });
+    const transformed = transformer.transform(new Parser().parse(figmaFile));
+    const { classMap } = new CSSGenerator().generate([transformed]);
+    const [home, about] = new HTMLGenerator().generatePages(transformed, classMap, 'frames');
+
+    expect(home.html).toContain('data-figma-id="10:1" id="node-10-1"');
+    expect(home.html).toMatch(/<a [^>]*href="\/pricing">Pricing<\/a>/);
+    expect(home.html).toMatch(/<a [^>]*href="about\.html#node-11-1">About<\/a>/);
+    expect(home.html).toMatch(/<a [^>]*href="#node-10-1">Top<\/a>/);
+    expect(about.html).toContain('data-figma-id="11:1" id="node-11-1"');
+  });
+});
+
+describe('Transformer text boxes', () => {
+  const text = (id: string, characters: string, style: Partial<TextStyle>, extra: Partial<FigmaNode> = {}): FigmaNode => ({
+    id,
+    name: 'Copy',
+    type: 'TEXT',
+    characters,
+    style: { fontFamily: 'Arial', fontSize: 16, fontWeight: 400, lineHeightPx: 20, ...style },
+    absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 60 },
+    ...extra,
+  });
+
+  it('maps auto-resize, truncation, case and vertical alignment', () => {
+    const figmaFile = fileWith([
+      text('12:1', 'Label', { textAutoResize: 'WIDTH_AND_HEIGHT', textCase: 'UPPER' }),
+      text('12:2', 'A long description', { textAutoResize: 'HEIGHT', textTruncation: 'ENDING', maxLines: 2 }),
+      text('12:3', 'Fits three lines', { textTruncation: 'ENDING' }),
+      text('12:4', 'Centered bold', { textAlignVertical: 'CENTER', paragraphIndent: 8 }, {
+        characterStyleOverrides: [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1],
+        styleOverrideTable: { 1: { fontWeight: 700 } },
+      }),
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [label, description, fitted, centered] = transformed.children[0].children;
+
+    expect(label.styles).toMatchObject({ width: 'max-content', height: 'auto', textTransform: 'uppercase' });
+    expect(description.styles).toMatchObject({ width: '200px', height: 'auto', display: '-webkit-box', WebkitLineClamp: 2 });
+    expect(fitted.styles).toMatchObject({ height: '60px', WebkitLineClamp: 3, overflow: 'hidden' });
+    expect(centered.styles).toMatchObject({ display: 'flex', flexDirection: 'column', justifyContent: 'center', textIndent: '8px' });
+    expect(centered.element.children).toHaveLength(1);
+    expect(centered.element.children[0]).toMatchObject({ tag: 'span', children: ['Centered ', { tag: 'strong' }] });
+
+    const { css } = new CSSGenerator().generate([transformed]);
+    expect(css).toContain('  -webkit-line-clamp: 2;\n');
+    expect(css).toContain('  -webkit-box-orient: vertical;\n');
+  });
+
+  it('splits spaced paragraphs into blocks', () => {
+    const figmaFile = fileWith([
+      text('13:1', 'One\nTwo bold\n\nFour', { paragraphSpacing: 12 }, {
+        characterStyleOverrides: [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1],
+        styleOverrideTable: { 1: { fontWeight: 700 } },
+      }),
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [copy] = transformed.children[0].children;
+    const { classMap } = new CSSGenerator().generate([transformed]);
+    const html = new HTMLGenerator().generate(transformed, classMap);
+
+    expect(copy.element.children).toHaveLength(4);
+    expect(copy.element.children[0]).toMatchObject({ styles: { display: 'block', marginBottom: '12px' } });
+    expect(copy.element.children[3]).toMatchObject({
+      children: [{ tag: 'strong', children: ['Fo'] }, 'ur'],
+      styles: { display: 'block' },
+    });
+    // The bold run crosses two line breaks and is closed in each paragraph
+    expect(html).toMatch(
+      /Two <strong class="([^"]+)">bold<\/strong><\/span><span class="[^"]+">\u00a0<\/span><span class="[^"]+"><strong class="\1">Fo<\/strong>ur<\/span>/
+    );
+  });
+});
+
+describe('Transformer auto-layout', () => {
+  it('wraps, limits sizes and takes absolute children out of the flow', () => {
+    const chip = (id: string, x: number, y: number): FigmaNode => ({
+      id,
+      name: 'Chip',
+      type: 'FRAME',
+      absoluteBoundingBox: { x, y, width: 80, height: 24 },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '14:1',
+        name: 'Tags',
+        type: 'FRAME',
+        layoutMode: 'HORIZONTAL',
+        layoutWrap: 'WRAP',
+        itemSpacing: 4,
+        counterAxisSpacing: 8,
+        counterAxisAlignItems: 'CENTER',
+        itemReverseZIndex: true,
+        paddingTop: 12,
+        paddingRight: 12,
+        paddingBottom: 12,
+        paddingLeft: 12,
+        strokes: [{ type: 'SOLID', color: brand }],
+        strokeWeight: 2,
+        maxWidth: 300,
+        absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 80 },
+        children: [
+          chip('14:2', 12, 12),
+          // Overlaps the first chip, which paints on top
+          chip('14:3', 84, 12),
+          { ...chip('14:4', 190, -6), name: 'Badge', layoutPositioning: 'ABSOLUTE' },
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [tags] = transformed.children[0].children;
+    const [first, second, badge] = tags.children;
+
+    expect(tags.styles).toMatchObject({
+      display: 'flex',
+      flexWrap: 'wrap',
+      rowGap: '8px',
+      columnGap: '4px',
+      alignContent: 'center',
+      maxWidth: '300px',
+      // The 2px border sits inside the padding Figma measures from the edge
+      padding: '10px',
+      position: 'relative',
+    });
+    expect(tags.styles.gap).toBeUndefined();
+    expect(tags.styles.isolation).toBe('isolate');
+    expect(first.styles.zIndex).toBe(3);
+    expect(second.styles.zIndex).toBe(2);
+    expect(badge.styles.zIndex).toBeUndefined();
+    expect(badge.styles).toMatchObject({ position: 'absolute', left: '190px', top: '-6px' });
+    expect(first.styles.position).toBeUndefined();
+  });
+
+  it('fills, hugs or keeps fixed sizes per axis', () => {
+    const figmaFile = fileWith([
+      {
+        id: '15:1',
+        name: 'Toolbar',
+        type: 'FRAME',
+        layoutMode: 'HORIZONTAL',
+        primaryAxisSizing: 'FIXED',
+        counterAxisSizing: 'AUTO',
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 40 },
+        children: [
+          {
+            id: '15:2',
+            name: 'Search',
+            type: 'FRAME',
+            layoutSizingHorizontal: 'FILL',
+            layoutSizingVertical: 'FILL',
+            absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 40 },
+          },
+          {
+            // Older file: no layoutSizing*, only layoutAlign
+            id: '15:3',
+            name: 'Button',
+            type: 'FRAME',
+            layoutAlign: 'STRETCH',
+            absoluteBoundingBox: { x: 300, y: 0, width: 100, height: 40 },
+          },
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [toolbar] = transformed.children[0].children;
+    const [search, button] = toolbar.children;
+
+    expect(toolbar.styles.width).toBe('400px');
+    expect(toolbar.styles.height).toBeUndefined();
+    expect(toolbar.styles.minHeight).toBeUndefined();
+    expect(search.styles).toMatchObject({ flex: '1', alignSelf: 'stretch' });
+    expect(search.styles.width).toBeUndefined();
+    expect(search.styles.height).toBeUndefined();
+    expect(button.styles).toMatchObject({ width: '100px', alignSelf: 'stretch' });
+    expect(button.styles.height).toBeUndefined();
+  });
+
+  it('turns column layout grids into CSS grids and places children in spans', () => {
+    const block = (id: string, name: string, x: number, y: number, width: number, height: number): FigmaNode => ({
+      id,
+      name,
+      type: 'RECTANGLE',
+      absoluteBoundingBox: { x, y, width, height },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '16:1',
+        name: 'Page',
+        type: 'FRAME',
+        // 12 columns of 68px between 60px margins
+        layoutGrids: [
+          { pattern: 'COLUMNS', alignment: 'STRETCH', count: 12, gutterSize: 24, offset: 60, sectionSize: 68 },
+        ],
+        absoluteBoundingBox: { x: 0, y: 0, width: 1200, height: 600 },
+        children: [
+          block('16:2', 'Header', 60, 0, 1080, 80),
+          block('16:3', 'Sidebar', 60, 120, 252, 400),
+          block('16:4', 'Content', 336, 120, 804, 360),
+          block('16:5', 'Badge', 346, 540, 100, 20),
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [page] = transformed.children[0].children;
+    const [header, sidebar, content, badge] = page.children;
+
+    expect(page.styles).toMatchObject({
+      display: 'grid',
+      gridTemplateColumns: 'repeat(12, minmax(0, 1fr))',
+      columnGap: '24px',
+      padding: '0px 60px',
+      minHeight: '600px',
+    });
+    expect(header.styles).toMatchObject({ gridColumn: '1 / 13', gridRow: '1' });
+    expect(header.styles.width).toBeUndefined();
+    expect(sidebar.styles).toMatchObject({ gridColumn: '1 / 4', gridRow: '2', marginTop: '40px' });
+    expect(content.styles).toMatchObject({ gridColumn: '4 / 13', gridRow: '2', marginTop: '40px' });
+    expect(badge.styles).toMatchObject({
+      gridColumn: '4 / 5',
+      gridRow: '3',
+      marginTop: '20px',
+      marginLeft: '10px',
+      justifySelf: 'start',
+      width: '100px',
+    });
+  });
+
+  it('lays out inferred rows and keeps overlapping layers absolute in a stack', () => {
+    const layer = (id: string, name: string, type: NodeType, x: number, y: number, width: number, height: number): FigmaNode => ({
+      id,
+      name,
+      type,
+      absoluteBoundingBox: { x, y, width, height },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '17:1',
+        name: 'Profile',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+        children: [
+          layer('17:2', 'Avatar', 'ELLIPSE', 16, 16, 48, 48),
+          // Sticks out of the avatar's top-right corner
+          layer('17:3', 'Status', 'ELLIPSE', 56, 8, 12, 12),
+          layer('17:4', 'Name', 'RECTANGLE', 80, 20, 120, 32),
+          layer('17:5', 'Bio', 'RECTANGLE', 16, 88, 288, 40),
+          layer('17:6', 'Action', 'RECTANGLE', 16, 144, 100, 40),
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [profile] = transformed.children[0].children;
+    const [header, bio, action] = profile.children;
+    const [stack] = header.children;
+    const [avatar, status] = stack.children;
+
+    expect(profile.styles).toMatchObject({ display: 'flex', flexDirection: 'column', gap: '16px', alignItems: 'flex-start' });
+    expect(profile.styles.position).toBeUndefined();
+    expect(header.styles).toMatchObject({ display: 'flex', flexDirection: 'row', gap: '12px', alignItems: 'center' });
+    // The larger gap above the bio is the shared gap plus a margin
+    expect(bio.styles.marginTop).toBe('8px');
+    expect(action.styles.marginTop).toBeUndefined();
+
+    expect(stack.styles).toMatchObject({ position: 'relative', width: '52px', height: '56px' });
+    expect(avatar.styles).toMatchObject({ position: 'absolute', left: '0px', top: '8px' });
+    expect(status.styles).toMatchObject({ position: 'absolute', left: '40px', top: '0px' });
+  });
+
+  it('stacks overlapping layers in Figma paint order', () => {
+    const cover = (id: string, name: string, alpha: number): FigmaNode => ({
+      id,
+      name,
+      type: 'RECTANGLE',
+      fills: [{ type: 'SOLID', color: { ...brand, a: alpha } }],
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+    });
+    const figmaFile = fileWith([
+      {
+        id: '18:1',
+        name: 'Hero',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+        children: [
+          cover('18:2', 'Image', 1),
+          cover('18:3', 'Overlay', 0.5),
+          {
+            id: '18:4',
+            name: 'Title',
+            type: 'TEXT',
+            characters: 'Welcome',
+            style: { fontFamily: 'Arial', fontSize: 32, fontWeight: 400 },
+            absoluteBoundingBox: { x: 40, y: 80, width: 200, height: 40 },
+          },
+        ],
+      },
+    ]);
+
+    const transformed = new Transformer().transform(new Parser().parse(figmaFile));
+    const [hero] = transformed.children[0].children;
+    const [image, overlay] = hero.children;
+
+    expect(hero.styles).toMatchObject({ position: 'relative', isolation: 'isolate' });
+    expect(image.styles).toMatchObject({ position: 'absolute', zIndex: 1 });
+    expect(overlay.styles).toMatchObject({ position: 'absolute', zIndex: 2 });
+    expect(overlay.styles.isolation).toBeUndefined();
+    expect(overlay.children[0].styles.zIndex).toBeUndefined();
+  });
+});
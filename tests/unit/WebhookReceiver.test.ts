@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookReceiver, WatchedFile } from '../../server/src/webhooks/WebhookReceiver.js';
+import type { FigmaWebhookPayload } from '../../server/src/types/figma.js';
+
+const watched: Omit<WatchedFile, 'id'> = {
+  fileId: 'ABC123',
+  owner: 'token:alice',
+  credentials: { type: 'personal', token: 'figd_test' },
+  options: { pageMode: 'pages' },
+  registeredAt: '2024-01-01T00:00:00.000Z',
+};
+
+function event(overrides: Partial<FigmaWebhookPayload> = {}): FigmaWebhookPayload {
+  return { event_type: 'FILE_UPDATE', passcode: 'secret', file_key: 'ABC123', file_name: 'Site', ...overrides };
+}
+
+describe('WebhookReceiver', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects payloads without the configured passcode', () => {
+    const receiver = new WebhookReceiver({ passcode: 'secret', debounceMs: 1000, convert: vi.fn() });
+
+    expect(receiver.receive(event({ passcode: 'wrong' }))).toBe('rejected');
+    expect(receiver.receive({ event_type: 'FILE_UPDATE', file_key: 'ABC123' })).toBe('rejected');
+    expect(receiver.receive(event({ event_type: 'PING' }))).toBe('pong');
+  });
+
+  it('reconverts once per burst with the saved options', async () => {
+    const convert = vi.fn().mockResolvedValue({ zip: Buffer.from('zip'), warnings: [] });
+    const receiver = new WebhookReceiver({ passcode: 'secret', debounceMs: 1000, convert });
+    const { id } = receiver.watch({ ...watched });
+
+    expect(receiver.receive(event({ file_key: 'OTHER' }))).toBe('ignored');
+    expect(receiver.receive(event())).toBe('scheduled');
+    await vi.advanceTimersByTimeAsync(500);
+    receiver.receive(event({ event_type: 'LIBRARY_PUBLISH' }));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(convert).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await receiver.idle();
+
+    expect(convert).toHaveBeenCalledTimes(1);
+    expect(convert.mock.calls[0][0]).toMatchObject({ fileId: 'ABC123', options: { pageMode: 'pages' } });
+    expect(receiver.getArtifact(id)).toMatchObject({ trigger: 'LIBRARY_PUBLISH', zip: Buffer.from('zip') });
+  });
+
+  it('queues one more conversion for events that arrive mid-conversion', async () => {
+    let finish!: () => void;
+    const convert = vi.fn()
+      .mockImplementationOnce(() => new Promise(resolve => {
+        finish = () => resolve({ zip: Buffer.from('first'), warnings: [] });
+      }))
+      .mockResolvedValue({ zip: Buffer.from('second'), warnings: [] });
+    const receiver = new WebhookReceiver({ passcode: 'secret', debounceMs: 0, convert });
+    const { id } = receiver.watch({ ...watched });
+
+    receiver.receive(event());
+    await vi.advanceTimersByTimeAsync(0);
+    receiver.receive(event());
+    receiver.receive(event());
+    finish();
+    await receiver.idle();
+    await vi.advanceTimersByTimeAsync(0);
+    await receiver.idle();
+
+    expect(convert).toHaveBeenCalledTimes(2);
+    expect(receiver.getArtifact(id)?.zip.toString()).toBe('second');
+  });
+
+  it('keeps each owner\'s watch of a file separate', async () => {
+    const convert = vi.fn().mockImplementation(async (file: WatchedFile) => ({ zip: Buffer.from(file.owner), warnings: [] }));
+    const receiver = new WebhookReceiver({ passcode: 'secret', debounceMs: 0, convert });
+    const alice = receiver.watch({ ...watched });
+    const bob = receiver.watch({ ...watched, owner: 'token:bob', options: { pageMode: 'frames' } });
+    // Watching again updates the watch instead of adding one
+    expect(receiver.watch({ ...watched, options: { pageMode: 'single' } }).id).toBe(alice.id);
+
+    expect(alice.id).not.toBe(bob.id);
+    expect(alice.id).toMatch(/^[0-9a-f]{32}$/);
+    expect(receiver.getWatched('token:alice')).toHaveLength(1);
+    expect(receiver.getWatch(bob.id, 'token:alice')).toBeUndefined();
+
+    receiver.receive(event());
+    await vi.advanceTimersByTimeAsync(0);
+    await receiver.idle();
+
+    expect(convert).toHaveBeenCalledTimes(2);
+    expect(receiver.getArtifact(alice.id)?.zip.toString()).toBe('token:alice');
+    expect(receiver.getArtifact(bob.id)?.zip.toString()).toBe('token:bob');
+    expect(receiver.getWatch(alice.id, 'token:alice')?.options).toEqual({ pageMode: 'single' });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractFileId,
+  extractNodeIds,
+  buildSelectionDocument,
+  findNodesById,
+  normalizeFigmaFile,
+} from '../../server/src/utils/helpers.js';
+import { ConversionPipeline } from '../../server/src/pipeline/ConversionPipeline.js';
+import { logger } from '../../server/src/utils/logger.js';
+import type { FigmaNode } from '../../server/src/types/figma.js';
+
+describe('helpers', () => {
+  it('should keep the file ID when the URL points at a node', () => {
+    const url = 'https://www.figma.com/design/AbC123xyz/My-File?node-id=12-34&t=abc';
+
+    expect(extractFileId(url)).toBe('AbC123xyz');
+    expect(extractNodeIds(url)).toEqual(['12:34']);
+  });
+
+  it('should decode legacy and multi-node node-id parameters', () => {
+    expect(extractNodeIds('https://www.figma.com/file/AbC/x?node-id=1%3A2')).toEqual(['1:2']);
+    expect(extractNodeIds('https://www.figma.com/file/AbC/x?node-id=1-2,3-4')).toEqual(['1:2', '3:4']);
+    expect(extractNodeIds('AbC123')).toEqual([]);
+  });
+
+  it('should wrap selected frames in a synthetic page', () => {
+    const frame: FigmaNode = { id: '2:1', name: 'Login', type: 'FRAME', children: [] };
+    const page: FigmaNode = { id: '1:0', name: 'Page 1', type: 'CANVAS', children: [frame] };
+    const root: FigmaNode = { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [page] };
+
+    const { found, missing } = findNodesById(root, ['2:1', '9:9']);
+    expect(found).toEqual([frame]);
+    expect(missing).toEqual(['9:9']);
+
+    const document = buildSelectionDocument(found);
+    expect(document.type).toBe('DOCUMENT');
+    expect(document.children).toHaveLength(1);
+    expect(document.children![0].type).toBe('CANVAS');
+    expect(document.children![0].children).toEqual([frame]);
+  });
+
+  it('should keep selected pages after the page of loose frames', async () => {
+    const frame: FigmaNode = { id: '2:1', name: 'Login', type: 'FRAME', children: [] };
+    const page: FigmaNode = { id: '1:1', name: 'Checkout', type: 'CANVAS', children: [{ id: '3:1', name: 'Cart', type: 'FRAME', children: [] }] };
+
+    const document = buildSelectionDocument([page, frame]);
+    expect(document.children!.map(child => child.name)).toEqual(['Selection', 'Checkout']);
+    expect(document.children![0].children).toEqual([frame]);
+
+    // A single page can't hold both; the page left out is reported
+    logger.clearWarnings();
+    const { warnings } = await new ConversionPipeline().run({
+      fileId: 'abc',
+      figmaFile: { name: 'App', lastModified: '', thumbnailUrl: '', version: '1', schemaVersion: 0, components: {}, styles: {}, document },
+    });
+    expect(warnings).toContain('Single-page output shows only the first page, "Selection"; "Checkout" is left out. Set pageMode to "pages" to convert every page');
+  });
+
+  const frame: FigmaNode = { id: '2:1', name: 'Login', type: 'FRAME', children: [] };
+  const page: FigmaNode = { id: '1:0', name: 'Page 1', type: 'CANVAS', children: [frame] };
+  const root: FigmaNode = { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [page] };
+
+  it('should read a full GET /files response', () => {
+    const file = normalizeFigmaFile({
+      name: 'App',
+      lastModified: '2024-01-01T00:00:00Z',
+      thumbnailUrl: 'https://s3.example.com/thumb.png',
+      version: '42',
+      schemaVersion: 14,
+      document: root,
+      components: { '3:1': { key: 'c1', name: 'Button', description: '' } },
+      styles: { 'S:1': { key: 's1', name: 'Brand', styleType: 'FILL', description: '' } },
+      role: 'owner',
+    });
+
+    expect(file).toEqual({
+      name: 'App',
+      lastModified: '2024-01-01T00:00:00Z',
+      thumbnailUrl: 'https://s3.example.com/thumb.png',
+      version: '42',
+      schemaVersion: 14,
+      document: root,
+      components: { '3:1': { key: 'c1', name: 'Button', description: '' } },
+      styles: { 'S:1': { key: 's1', name: 'Brand', styleType: 'FILL', description: '' } },
+    });
+  });
+
+  it('should gather a GET /files/:key/nodes response into one document', () => {
+    const file = normalizeFigmaFile({
+      name: 'App',
+      version: '42',
+      nodes: {
+        '2:1': { document: frame, components: { '3:1': { key: 'c1' } }, styles: {} },
+        '1:0': { document: page, components: {}, styles: { 'S:1': { key: 's1' } } },
+        '9:9': null,
+      },
+    });
+
+    expect(file?.name).toBe('App');
+    expect(file?.version).toBe('42');
+    expect(file?.document.type).toBe('DOCUMENT');
+    expect(file?.document.children!.map(child => child.name)).toEqual(['Selection', 'Page 1']);
+    expect(file?.document.children![0].children).toEqual([frame]);
+    expect(Object.keys(file!.components)).toEqual(['3:1']);
+    expect(Object.keys(file!.styles)).toEqual(['S:1']);
+  });
+
+  it('should wrap a bare document node', () => {
+    const file = normalizeFigmaFile(root);
+
+    expect(file?.document).toBe(root);
+    expect(file).toMatchObject({ name: 'Untitled', version: '', components: {}, styles: {} });
+  });
+
+  it('should reject anything else', () => {
+    for (const junk of [null, undefined, 'document', 42, [], {}, { document: page }, { document: 'DOCUMENT' }, { nodes: { '1:0': null } }]) {
+      expect(normalizeFigmaFile(junk)).toBeNull();
+    }
+  });
+});